@@ -1,4 +1,5 @@
 // Auto Config System - Auto-detect optimal persistence strategies
+import { encodeTaggedValues } from './tagged-values.js';
 
 export interface AutoConfigAnalysisResult {
   shouldCompress: boolean;
@@ -13,7 +14,8 @@ export interface AutoConfigAnalysisResult {
  * Analyze data patterns to recommend optimal persistence strategies
  */
 export function analyzeDataPatterns<T>(data: T): AutoConfigAnalysisResult {
-  const jsonString = JSON.stringify(data);
+  // Measure the state as it is persisted, with Dates, Maps, Sets and BigInts tagged.
+  const jsonString = JSON.stringify(encodeTaggedValues(data));
   const size = jsonString.length;
   const reasoning: string[] = [];
   
@@ -73,7 +75,7 @@ function detectSensitiveFields(obj: any): boolean {
     'ssn', 'social', 'credit', 'card'
   ];
   
-  const jsonString = JSON.stringify(obj).toLowerCase();
+  const jsonString = JSON.stringify(encodeTaggedValues(obj)).toLowerCase();
   return sensitiveKeywords.some(keyword => jsonString.includes(keyword));
 }
 
@@ -87,7 +89,7 @@ export function explainAutoConfig<T>(data: T): void {
   
   console.group('⚙️ Slug Store Auto Config Analysis');
   console.log('📊 Data Pattern Analysis:', {
-    size: `${JSON.stringify(data).length} characters`,
+    size: `${JSON.stringify(encodeTaggedValues(data)).length} characters`,
     compression: analysis.shouldCompress ? '✅ Enabled' : '❌ Disabled',
     encryption: analysis.shouldEncrypt ? '✅ Enabled' : '❌ Disabled',
     urlPersistence: analysis.shouldPersistInURL ? '✅ Enabled' : '❌ Disabled',
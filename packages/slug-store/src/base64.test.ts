@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { BASE64_PATTERN, encodeBase64Url, decodeBase64 } from './base64.js';
+
+const bytes = new Uint8Array([251, 255, 191, 0, 62, 63]);
+
+describe('Base64', () => {
+  it('should encode base64url without padding', () => {
+    expect(encodeBase64Url(bytes)).toBe('-_-_AD4_');
+    expect(encodeBase64Url(new Uint8Array([1]))).toBe('AQ');
+  });
+
+  it('should decode both alphabets, with or without padding', () => {
+    expect(decodeBase64('-_-_AD4_')).toEqual(bytes);
+    expect(decodeBase64('+/+/AD4/')).toEqual(bytes);
+    expect(decodeBase64('AQ==')).toEqual(new Uint8Array([1]));
+    expect(decodeBase64('AQ')).toEqual(new Uint8Array([1]));
+  });
+
+  it('should round-trip large inputs', () => {
+    const large = Uint8Array.from({ length: 100_000 }, (_, i) => i % 256);
+    expect(decodeBase64(encodeBase64Url(large))).toEqual(large);
+  });
+
+  it('should match either alphabet', () => {
+    expect(BASE64_PATTERN.test('-_-_AD4_')).toBe(true);
+    expect(BASE64_PATTERN.test('+/+/AD4/AQ==')).toBe(true);
+    expect(BASE64_PATTERN.test('{"view":"grid"}')).toBe(false);
+  });
+});
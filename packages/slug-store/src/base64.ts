@@ -0,0 +1,46 @@
+// Base64 Module
+/**
+ * Matches Base64 in either alphabet, with or without padding.
+ * Standard Base64 uses `+` and `/`; base64url uses `-` and `_` and usually drops the `=` padding.
+ */
+export const BASE64_PATTERN = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+/**
+ * Encodes bytes as base64url without padding (RFC 4648 §5). The output only contains characters
+ * that URLs never escape, so it survives `searchParams.set`, chat apps and email clients unchanged.
+ *
+ * @param bytes The bytes to encode.
+ * @returns The base64url string.
+ */
+export function encodeBase64Url(bytes: Uint8Array): string {
+  return btoa(toBinaryString(bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Turns bytes into a string of one character per byte, as `btoa` and LZ-String expect.
+ *
+ * @param bytes The bytes to convert.
+ * @returns The binary string.
+ */
+export function toBinaryString(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, since spreading a large array into `fromCharCode` exceeds the call stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+}
+
+/**
+ * Decodes Base64 written in either alphabet, with or without padding, so payloads written before
+ * the switch to base64url keep decoding.
+ *
+ * @param data The Base64 or base64url string.
+ * @returns The decoded bytes.
+ * @throws If the string is not valid Base64.
+ */
+export function decodeBase64(data: string): Uint8Array {
+  const standard = data.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = standard.padEnd(standard.length + ((4 - (standard.length % 4)) % 4), '=');
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,223 @@
+// Binary Encoding Module
+/**
+ * Byte buffers shared by the MessagePack and CBOR serializers, and the rules that make
+ * both serializers store exactly what `JSON.stringify` would.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Appends big-endian numbers, bytes and UTF-8 text to a buffer that grows as needed.
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  /**
+   * Makes room for `size` more bytes and returns where they start. It may replace the
+   * buffer and view, so call it before reading them.
+   */
+  private reserve(size: number): number {
+    if (this.length + size > this.buffer.length) {
+      const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+      this.view = new DataView(grown.buffer);
+    }
+    const offset = this.length;
+    this.length += size;
+    return offset;
+  }
+
+  uint8(value: number): void {
+    const offset = this.reserve(1);
+    this.view.setUint8(offset, value);
+  }
+
+  uint16(value: number): void {
+    const offset = this.reserve(2);
+    this.view.setUint16(offset, value);
+  }
+
+  uint32(value: number): void {
+    const offset = this.reserve(4);
+    this.view.setUint32(offset, value);
+  }
+
+  int8(value: number): void {
+    const offset = this.reserve(1);
+    this.view.setInt8(offset, value);
+  }
+
+  int16(value: number): void {
+    const offset = this.reserve(2);
+    this.view.setInt16(offset, value);
+  }
+
+  int32(value: number): void {
+    const offset = this.reserve(4);
+    this.view.setInt32(offset, value);
+  }
+
+  /** Writes a safe integer as a 64-bit integer, signed if it is negative. */
+  int64(value: number): void {
+    const offset = this.reserve(8);
+    if (value < 0) {
+      this.view.setBigInt64(offset, BigInt(value));
+    } else {
+      this.view.setBigUint64(offset, BigInt(value));
+    }
+  }
+
+  float32(value: number): void {
+    const offset = this.reserve(4);
+    this.view.setFloat32(offset, value);
+  }
+
+  float64(value: number): void {
+    const offset = this.reserve(8);
+    this.view.setFloat64(offset, value);
+  }
+
+  bytes(value: Uint8Array): void {
+    const offset = this.reserve(value.length);
+    this.buffer.set(value, offset);
+  }
+
+  /** Returns the bytes written so far. */
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Reads big-endian numbers, bytes and UTF-8 text, and rejects reads past the end.
+ */
+export class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /** Whether every byte has been read. */
+  get done(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  /** Advances past `size` bytes and returns where they start. */
+  private take(size: number): number {
+    if (this.offset + size > this.data.length) {
+      throw new RangeError('Unexpected end of data');
+    }
+    const offset = this.offset;
+    this.offset += size;
+    return offset;
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  uint16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  uint32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+
+  uint64(): number {
+    return Number(this.view.getBigUint64(this.take(8)));
+  }
+
+  int8(): number {
+    return this.view.getInt8(this.take(1));
+  }
+
+  int16(): number {
+    return this.view.getInt16(this.take(2));
+  }
+
+  int32(): number {
+    return this.view.getInt32(this.take(4));
+  }
+
+  int64(): number {
+    return Number(this.view.getBigInt64(this.take(8)));
+  }
+
+  float32(): number {
+    return this.view.getFloat32(this.take(4));
+  }
+
+  float64(): number {
+    return this.view.getFloat64(this.take(8));
+  }
+
+  bytes(size: number): Uint8Array {
+    const offset = this.take(size);
+    return this.data.slice(offset, offset + size);
+  }
+
+  text(size: number): string {
+    const offset = this.take(size);
+    return textDecoder.decode(this.data.subarray(offset, offset + size));
+  }
+}
+
+/** Encodes text as UTF-8. */
+export function encodeUtf8(value: string): Uint8Array {
+  return textEncoder.encode(value);
+}
+
+/**
+ * Converts a value the way `JSON.stringify` sees it: calls `toJSON` (so dates become strings)
+ * and turns non-finite numbers into null. Values JSON cannot represent come back as undefined,
+ * so the caller can leave them out of objects and write null in arrays, as JSON does.
+ *
+ * @param value The value.
+ * @param key The property name or array index, passed to `toJSON`.
+ * @throws {TypeError} For BigInt values, like `JSON.stringify`.
+ */
+export function toJSONValue(value: unknown, key: string): unknown {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    value = (value as { toJSON: (key: string) => unknown }).toJSON(key);
+  }
+  switch (typeof value) {
+    case 'number':
+      return Number.isFinite(value) ? value : null;
+    case 'bigint':
+      throw new TypeError('Do not know how to serialize a BigInt');
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Whether a number is written as an integer. Larger integers have already lost precision,
+ * so they are written as floats. `-0` is written as `0`, as JSON does.
+ */
+export function isWritableInteger(value: number): boolean {
+  return Number.isSafeInteger(value);
+}
+
+/**
+ * Sets a decoded property, including one named `__proto__`, as an own property,
+ * as `JSON.parse` does.
+ */
+export function setDecodedProperty(target: Record<string, unknown>, key: unknown, value: unknown): void {
+  const name = String(key);
+  if (name === '__proto__') {
+    Object.defineProperty(target, name, { value, enumerable: true, configurable: true, writable: true });
+  } else {
+    target[name] = value;
+  }
+}
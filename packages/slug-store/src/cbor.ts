@@ -0,0 +1,191 @@
+// CBOR Module
+import { ByteReader, ByteWriter, encodeUtf8, isWritableInteger, setDecodedProperty, toJSONValue } from './binary.js';
+
+/**
+ * A CBOR (RFC 8949) encoder and decoder for JSON-compatible values. Values are stored as
+ * `JSON.stringify` would store them: dates become strings, and undefined and functions
+ * are left out. Byte arrays are written as CBOR byte strings. Tags and indefinite-length
+ * items are not used.
+ */
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+/**
+ * Encodes a value as CBOR.
+ *
+ * @param value The value to encode.
+ * @returns The encoded bytes.
+ * @throws {TypeError} If the value contains a BigInt.
+ */
+export function encodeCBOR(value: unknown): Uint8Array {
+  const writer = new ByteWriter();
+  writeValue(writer, toJSONValue(value, '') ?? null);
+  return writer.finish();
+}
+
+/**
+ * Decodes CBOR written by `encodeCBOR`, or by any other encoder that does not use tags or
+ * indefinite-length items.
+ *
+ * @param bytes The encoded bytes.
+ * @returns The decoded value.
+ * @throws If the bytes are not valid CBOR, or use tags or indefinite lengths.
+ */
+export function decodeCBOR(bytes: Uint8Array): unknown {
+  const reader = new ByteReader(bytes);
+  const value = readValue(reader);
+  if (!reader.done) {
+    throw new Error('Unexpected data after the CBOR value');
+  }
+  return value;
+}
+
+// --- Encoding ---
+
+/** Writes the initial byte of an item and its argument, in the fewest bytes that hold it. */
+function writeHead(writer: ByteWriter, major: number, argument: number): void {
+  const type = major << 5;
+  if (argument < 24) {
+    writer.uint8(type | argument);
+  } else if (argument <= 0xff) {
+    writer.uint8(type | 24);
+    writer.uint8(argument);
+  } else if (argument <= 0xffff) {
+    writer.uint8(type | 25);
+    writer.uint16(argument);
+  } else if (argument <= 0xffffffff) {
+    writer.uint8(type | 26);
+    writer.uint32(argument);
+  } else {
+    writer.uint8(type | 27);
+    writer.int64(argument);
+  }
+}
+
+/** Writes a value that has already been converted by `toJSONValue`. */
+function writeValue(writer: ByteWriter, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.uint8(0xf6);
+  } else if (typeof value === 'boolean') {
+    writer.uint8(value ? 0xf5 : 0xf4);
+  } else if (typeof value === 'number') {
+    if (isWritableInteger(value)) {
+      // Negative integers store -1 - n, so -1 is stored as 0.
+      if (value >= 0) {
+        writeHead(writer, MAJOR_UNSIGNED, value);
+      } else {
+        writeHead(writer, MAJOR_NEGATIVE, -1 - value);
+      }
+    } else if (Math.fround(value) === value) {
+      writer.uint8(0xfa);
+      writer.float32(value);
+    } else {
+      writer.uint8(0xfb);
+      writer.float64(value);
+    }
+  } else if (typeof value === 'string') {
+    const bytes = encodeUtf8(value);
+    writeHead(writer, MAJOR_TEXT, bytes.length);
+    writer.bytes(bytes);
+  } else if (value instanceof Uint8Array) {
+    writeHead(writer, MAJOR_BYTES, value.length);
+    writer.bytes(value);
+  } else if (Array.isArray(value)) {
+    writeHead(writer, MAJOR_ARRAY, value.length);
+    value.forEach((item, index) => writeValue(writer, toJSONValue(item, String(index)) ?? null));
+  } else {
+    const entries: Array<[string, unknown]> = [];
+    for (const [key, item] of Object.entries(value)) {
+      const converted = toJSONValue(item, key);
+      if (converted !== undefined) entries.push([key, converted]);
+    }
+    writeHead(writer, MAJOR_MAP, entries.length);
+    for (const [key, item] of entries) {
+      writeValue(writer, key);
+      writeValue(writer, item);
+    }
+  }
+}
+
+// --- Decoding ---
+
+/** Reads the argument that follows an initial byte. */
+function readArgument(reader: ByteReader, info: number): number {
+  if (info < 24) return info;
+  switch (info) {
+    case 24: return reader.uint8();
+    case 25: return reader.uint16();
+    case 26: return reader.uint32();
+    case 27: return reader.uint64();
+    case 31: throw new Error('Indefinite-length CBOR items are not supported');
+    default: throw new Error(`Invalid CBOR argument ${info}`);
+  }
+}
+
+/** Reads an IEEE 754 half-precision float. */
+function readFloat16(reader: ByteReader): number {
+  const half = reader.uint16();
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const magnitude = exponent === 0
+    ? mantissa * 2 ** -24
+    : exponent === 0x1f
+      ? (mantissa ? NaN : Infinity)
+      : (mantissa + 0x400) * 2 ** (exponent - 25);
+  return half & 0x8000 ? -magnitude : magnitude;
+}
+
+function readValue(reader: ByteReader): unknown {
+  const initial = reader.uint8();
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  switch (major) {
+    case MAJOR_UNSIGNED:
+      return readArgument(reader, info);
+    case MAJOR_NEGATIVE:
+      return -1 - readArgument(reader, info);
+    case MAJOR_BYTES:
+      return reader.bytes(readArgument(reader, info));
+    case MAJOR_TEXT:
+      return reader.text(readArgument(reader, info));
+    case MAJOR_ARRAY: {
+      const length = readArgument(reader, info);
+      const result: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        result.push(readValue(reader));
+      }
+      return result;
+    }
+    case MAJOR_MAP: {
+      const size = readArgument(reader, info);
+      const result: Record<string, unknown> = {};
+      for (let i = 0; i < size; i++) {
+        const key = readValue(reader);
+        setDecodedProperty(result, key, readValue(reader));
+      }
+      return result;
+    }
+    case MAJOR_TAG:
+      throw new Error('CBOR tags are not supported');
+    case MAJOR_SIMPLE:
+    default:
+      switch (info) {
+        case 20: return false;
+        case 21: return true;
+        case 22: return null;
+        case 23: return undefined;
+        case 25: return readFloat16(reader);
+        case 26: return reader.float32();
+        case 27: return reader.float64();
+        default: throw new Error(`Unsupported CBOR simple value ${info}`);
+      }
+  }
+}
@@ -1,5 +1,5 @@
 // packages/slug-store/src/client.test.ts
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
 import { getSlug, getSlugData, copySlug, shareSlug } from './client.js';
 import { URLPersistence } from './persistence/url.js';
 
@@ -95,7 +95,7 @@ describe('Client Utilities', () => {
 
     it('should correctly decode an encrypted value from the URL', async () => {
       const state = { user: 'test', secret: 'data' };
-      const encryptionKey = 'my-secret-key-for-testing';
+      const encryptionKey = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
       
       const persistence = new URLPersistence({
         enabled: true,
@@ -106,6 +106,7 @@ describe('Client Utilities', () => {
       });
 
       const { url } = await persistence.encodeState(state);
+      expect(url).toBeDefined();
 
       if (url) {
         window.location.href = url;
@@ -114,9 +115,26 @@ describe('Client Utilities', () => {
       }
     });
 
+    it('should return undefined if the decoded value fails schema validation', async () => {
+      const persistence = new URLPersistence({
+        enabled: true,
+        paramName: 'filters',
+        compress: false,
+      });
+      const { url } = await persistence.encodeState({ view: 'table' });
+      const isFilters = (value: unknown): value is { view: 'grid' | 'list' } =>
+        ['grid', 'list'].includes((value as { view: string }).view);
+
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      window.location.href = url!;
+      expect(await getSlugData('filters', { schema: isFilters })).toBeUndefined();
+      expect(await getSlugData('filters')).toEqual({ view: 'table' });
+      consoleSpy.mockRestore();
+    });
+
      it('should return undefined for an encrypted value if the wrong key is provided', async () => {
       const state = { user: 'test', secret: 'data' };
-      const encryptionKey = 'my-secret-key-for-testing';
+      const encryptionKey = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
       
       const persistence = new URLPersistence({
         enabled: true,
@@ -127,12 +145,46 @@ describe('Client Utilities', () => {
       });
 
       const { url } = await persistence.encodeState(state);
+      expect(url).toBeDefined();
 
       if (url) {
         window.location.href = url;
-        const data = await getSlugData('secure-app', { encryptionKey: 'wrong-key' });
+        const data = await getSlugData('secure-app', { encryptionKey: 'HyAhIiMkJSYnKCkqKywtLi8wMTIzNDU2Nzg5Ojs8PT4=' });
         expect(data).toBeUndefined();
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('URLPersistence.updateURL', () => {
+    let pushState: MockInstance<Parameters<History['pushState']>, void>;
+    let replaceState: MockInstance<Parameters<History['replaceState']>, void>;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      pushState = vi.spyOn(window.history, 'pushState').mockImplementation(() => {});
+      replaceState = vi.spyOn(window.history, 'replaceState').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should replace the current history entry by default', () => {
+      new URLPersistence({ enabled: true }).updateURL('http://localhost:3000/?s=1');
+      expect(replaceState).toHaveBeenCalledWith({}, '', 'http://localhost:3000/?s=1');
+      expect(pushState).not.toHaveBeenCalled();
+    });
+
+    it('should push a new history entry in push mode', () => {
+      new URLPersistence({ enabled: true }).updateURL('http://localhost:3000/?s=2', 'push');
+      expect(pushState).toHaveBeenCalledWith({}, '', 'http://localhost:3000/?s=2');
+    });
+
+    it('should not push a duplicate entry for the current URL', () => {
+      window.location.href = 'http://localhost:3000/?s=3';
+      new URLPersistence({ enabled: true }).updateURL('http://localhost:3000/?s=3', 'push');
+      expect(pushState).not.toHaveBeenCalled();
+      expect(replaceState).toHaveBeenCalled();
+    });
+  });
+});
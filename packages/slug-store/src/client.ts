@@ -1,58 +1,36 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
 // Import necessary components from other modules
-import { analyzeDataPatterns, explainAutoConfig, AutoConfigAnalysisResult } from './auto-config.js';
-import { URLPersistence } from './persistence/url.js';
+import {
+  URLPersistence,
+  type HistoryMode,
+  type URLDecodeErrorCode,
+  type URLDecodeResult,
+  type URLDecodingMode,
+  type URLLocation,
+} from './persistence/url.js';
 import { OfflinePersistence } from './persistence/offline.js';
-
-// --- Constants ---
-// Define a constant for the key used to store the encryption key in localStorage.
-const ENCRYPTION_KEY_STORAGE_KEY = 'slug-store-encryption-key';
+import {
+  createSlugStore,
+  SlugStorePersistenceError,
+  type SlugStore,
+  type SlugStoreOptions,
+  type SlugStoreStatus,
+} from './store.js';
+import { clearAllSlugStores, getOrCreateSlugStore, getSlugStore, mergeConsumerOptions, retainSlugStore } from './registry.js';
+import { shallowEqual } from './equality.js';
+import type { URLCodec } from './codec.js';
+import type { ShortLinkStore } from './short-links.js';
+import type { TypeHandler } from './tagged-values.js';
+import type { CompactionSchema } from './compaction.js';
+import {
+  validateState,
+  SlugStoreValidationError,
+  type SlugStoreSchema,
+} from './validation.js';
 
 // --- Types ---
-// Define the options for the useSlugStore hook.
-/**
- * Configuration options for the useSlugStore hook.
- */
-export interface SlugStoreOptions {
-  /** 
-   * Persist state in the URL's query parameters.
-   * Ideal for small, shareable state like filters or search queries.
-   * @default false
-   */
-  url?: boolean;
-  /** 
-   * Persist state in the browser's offline storage (IndexedDB with a LocalStorage fallback).
-   * Ideal for larger state or data that should survive page refreshes.
-   * @default false
-   */
-  offline?: boolean;
-  /**
-   * Persist state to both URL and offline storage.
-   * This provides the robustness of offline storage with the shareability of URL persistence.
-   * Overrides `url`, `offline`, and `autoConfig` flags.
-   * @default false
-   */
-  hybrid?: boolean;
-  /** 
-   * When true, automatically determines the best persistence strategy 
-   * based on data size and content analysis. Overrides `url` and `offline` flags.
-   * @default false
-   */
-  autoConfig?: boolean;
-  /** 
-   * A custom encryption key (must be a 32-byte hex string). 
-   * If not provided, a key will be generated for auto-config if encryption is deemed necessary.
-   */
-  encryptionKey?: string;
-  /**
-   * In development environments, this logs the auto-config analysis and decisions to the console.
-   * @default true
-   */
-  debug?: boolean;
-}
-
 // Define the type for the setState function.
 /**
  * The setter function for updating the slug store's state.
@@ -60,17 +38,27 @@ export interface SlugStoreOptions {
  */
 type SetState<T> = (newState: T | ((prevState: T) => T)) => void;
 
+/**
+ * The third element returned by useSlugStore: the load status of the state,
+ * and functions to reset it or remove it from every persistence layer.
+ */
+export type SlugStoreControls = SlugStoreStatus & Pick<SlugStore<unknown>, 'reset' | 'clear'>;
+
 // --- The Hook ---
 // This is the main hook that provides state management with persistence.
 /**
  * A React hook for persistent and shareable state management.
  * It extends `useState` with capabilities to persist state in the URL, browser storage, or both.
+ * It is a thin binding over a slug store (see `createSlugStore`), which holds the state and runs the
+ * persistence pipeline. Components using the same key share one store.
  * 
  * @template T The type of the state.
  * @param {string} key A unique key to identify the state in storage and URL parameters.
  * @param {T} initialState The initial value of the state if none is found in storage.
- * @param {SlugStoreOptions} [options={}] Configuration for persistence and behavior.
- * @returns {[T, SetState<T>]} A tuple containing the current state and a function to update it.
+ * @param {SlugStoreOptions<T>} [options={}] Configuration for persistence and behavior.
+ * @returns {[T, SetState<T>, SlugStoreControls]} A tuple containing the current state, a function to update it,
+ * and the load status: whether the persisted state is still loading, where the state came from,
+ * the last error and when the state was last persisted, along with `reset` and `clear` functions.
  * 
  * @example
  * // Basic usage for a simple counter
@@ -79,192 +67,128 @@ type SetState<T> = (newState: T | ((prevState: T) => T)) => void;
  * @example
  * // Storing complex object in the URL for sharing
  * const [filters, setFilters] = useSlugStore('filters', { category: 'all', sort: 'asc' }, { url: true });
+ *
+ * @example
+ * // Showing a placeholder until the persisted state is restored
+ * const [cart, setCart, { isLoading, error }] = useSlugStore('cart', [], { offline: true });
+ *
+ * @example
+ * // Removing the state from the URL and storage
+ * const [filters, setFilters, { clear }] = useSlugStore('filters', { category: 'all' }, { hybrid: true });
+ * await clear();
  */
 export function useSlugStore<T>(
   key: string,
   initialState: T,
-  options: SlugStoreOptions = {}
-): [T, SetState<T>] {
-  const {
-    url = false,
-    offline = false,
-    hybrid = false,
-    autoConfig = false,
-    encryptionKey: customEncryptionKey,
-    debug = true,
-  } = options;
-
-  const [state, setState] = useState<T>(initialState);
-  /**
-   * A ref to track whether the initial state has been loaded from persistence.
-   * This prevents overwriting the loaded state with the initial state on the first render.
-   */
-  const isInitialized = useRef(false);
-
-  // --- Encryption Key Management ---
-  // This function gets the encryption key, either from options or localStorage, or generates a new one.
-  /**
-   * Retrieves or generates an encryption key.
-   * Priority: custom key > stored key > new generated key.
-   */
-  const getEncryptionKey = useCallback(async () => {
-    if (customEncryptionKey) return customEncryptionKey;
-    if (typeof window === 'undefined') return null;
-
-    let storedKey = localStorage.getItem(ENCRYPTION_KEY_STORAGE_KEY);
-    if (storedKey) return storedKey;
-    
-    // Dynamically import encryption utils only when needed to reduce bundle size.
-    const { generateKey } = await import('./encryption.js');
-    const newKey = await generateKey();
-    localStorage.setItem(ENCRYPTION_KEY_STORAGE_KEY, newKey);
-    return newKey;
-  }, [customEncryptionKey]);
-
-  // --- Load Initial State from persistence ---
-  // This effect runs once on mount to load the state from URL or offline storage.
-  /**
-   * Effect to load the initial state from persistence layers on component mount.
-   * It follows a priority system: URL state takes precedence over Offline state.
-   */
+  options: SlugStoreOptions<T> = {}
+): [T, SetState<T>, SlugStoreControls] {
+  // The store is shared by every component using this key. Option changes are applied to it below.
+  const store = getOrCreateSlugStore(key, initialState, options);
+
+  // Apply this component's options to the store on every render, so its latest callbacks are used.
+  // Shared options that are merely different from another component's are not applied, so
+  // components sharing a key do not overwrite each other; only this component's changes are.
+  const appliedOptions = useRef({ store, options });
   useEffect(() => {
-    const loadState = async () => {
-      if (typeof window === 'undefined') return;
-
-      const encryptionKey = await getEncryptionKey();
-
-      // Priority 1: Attempt to load state from the URL.
-      const urlPersistence = new URLPersistence({ 
-        enabled: true, // Always try to decode from URL on initial load
-        paramName: key, 
-        compress: 'auto', // Auto-detect compression to handle any format
-        encryptionKey: encryptionKey || undefined,
-        encrypt: !!encryptionKey
-      });
-
-      const urlResult = await urlPersistence.decodeState<T>();
-      if (urlResult.success && urlResult.state !== undefined) {
-        setState(urlResult.state);
-        isInitialized.current = true;
-        return;
-      }
-
-      // Priority 2: If no state in URL, attempt to load from offline storage.
-      const offlinePersistence = new OfflinePersistence({ 
-        enabled: true, // Always try to decode from offline
-        encryptionKey: encryptionKey || undefined,
-        encrypt: !!encryptionKey
-      });
-      const offlineResult = await offlinePersistence.loadState<T>(key);
-      if (offlineResult.success && offlineResult.data !== undefined) {
-        setState(offlineResult.data);
-      }
-      isInitialized.current = true;
-    };
-
-    loadState().catch(console.error);
-  }, [key, getEncryptionKey, autoConfig]);
-
-  // --- Listen for URL changes from browser navigation (back/forward buttons) ---
+    const applied = appliedOptions.current;
+    appliedOptions.current = { store, options };
+    if (applied.store === store) {
+      store.setOptions(mergeConsumerOptions(store.getOptions(), applied.options, options));
+    }
+  });
+
+  // Load the persisted state on mount. When the last component using the store unmounts,
+  // it stops listening to the browser and flushes pending writes, so no final edit is lost.
   useEffect(() => {
-    const handlePopState = async () => {
-      if (typeof window === 'undefined') return;
-
-      const encryptionKey = await getEncryptionKey();
-
-      const urlPersistence = new URLPersistence({
-        enabled: true,
-        paramName: key,
-        compress: 'auto',
-        encryptionKey: encryptionKey || undefined,
-        encrypt: !!encryptionKey,
-      });
-
-      const urlResult = await urlPersistence.decodeState<T>();
-      if (urlResult.success && urlResult.state !== undefined) {
-        setState(urlResult.state);
-      } else {
-        // If the state is removed from the URL, revert to the initial state
-        setState(initialState);
-      }
-    };
-
-    window.addEventListener('popstate', handlePopState);
-    return () => {
-      window.removeEventListener('popstate', handlePopState);
-    };
-  }, [key, getEncryptionKey, initialState]);
-
-  // --- Persist State on Change ---
-  // This effect runs whenever the state changes to save it to the configured persistence layers.
+    const release = retainSlugStore(store);
+    store.hydrate().catch(console.error);
+    return release;
+  }, [store]);
+
+  const state = useSyncExternalStore(store.subscribe, store.get, store.get);
+  const status = useSyncExternalStore(store.subscribeStatus, store.getStatus, store.getStatus);
+  const controls = useMemo(() => ({ ...status, reset: store.reset, clear: store.clear }), [status, store]);
+
+  return [state, store.set, controls];
+}
+
+/**
+ * A React hook that subscribes to a slice of a slug store's state.
+ * The component only re-renders when the selected value changes according to `equalityFn`,
+ * so a component reading `state.filter` does not re-render when `state.items` changes.
+ *
+ * The store must already exist: call `useSlugStore(key, ...)` in a parent component
+ * (or the same component) before using this hook. Stores are not shared on the server, so
+ * server rendering selects from `serverState` instead.
+ *
+ * @template T The type of the state.
+ * @template S The type of the selected value.
+ * @param {string} key The key of the slug store to read from.
+ * @param {(state: T) => S} selector Derives the value the component needs from the state.
+ * @param {(a: S, b: S) => boolean} [equalityFn=Object.is] Decides whether two selected values are equal.
+ * Use `shallowEqual` for selectors that return new objects or arrays.
+ * @param {T} [serverState] The state selected from during server rendering, usually the `initialState` passed to `useSlugStore`.
+ * @returns {S} The selected value.
+ * @throws If no slug store exists for the key, or on the server if `serverState` is not given.
+ *
+ * @example
+ * const filter = useSlugStoreSelector('wishlist', (state: WishlistState) => state.filter);
+ *
+ * @example
+ * // Selecting several fields at once
+ * const { view, sortBy } = useSlugStoreSelector(
+ *   'wishlist',
+ *   (state: WishlistState) => ({ view: state.view, sortBy: state.sortBy }),
+ *   shallowEqual
+ * );
+ */
+export function useSlugStoreSelector<T, S>(
+  key: string,
+  selector: (state: T) => S,
+  equalityFn: (a: S, b: S) => boolean = Object.is,
+  serverState?: T
+): S {
+  // Each server render creates its own stores without registering them, so there is none to read.
+  if (typeof window === 'undefined') {
+    if (serverState === undefined) {
+      throw new Error(
+        `useSlugStoreSelector: slug stores are not shared on the server. ` +
+        `Pass the initial state of "${key}" as serverState to render this component on the server.`
+      );
+    }
+    return selector(serverState);
+  }
+
+  const store = getSlugStore<T>(key);
+  if (!store) {
+    throw new Error(
+      `useSlugStoreSelector: no slug store exists for key "${key}". ` +
+      `Call useSlugStore("${key}", ...) in a parent component first.`
+    );
+  }
+
   /**
-   * Effect to persist the state to the configured storage layers whenever it changes.
-   * This effect is skipped until the initial state has been loaded.
+   * The last state and selection. Returning the previous selection when the new one is equal
+   * keeps the snapshot stable, which is what lets React skip the re-render.
    */
-  useEffect(() => {
-    // Do not persist until the initial state has been loaded.
-    if (!isInitialized.current) return;
-
-    const persistState = async () => {
-      let analysis: AutoConfigAnalysisResult | null = null;
-      if (autoConfig) {
-        analysis = analyzeDataPatterns(state);
-        if (debug && typeof process !== 'undefined' && process.env && process.env.NODE_ENV === 'development') {
-          console.groupCollapsed(`Slug Store [${key}] - AutoConfig Analysis`);
-          explainAutoConfig(state);
-          console.groupEnd();
-        }
-      }
-
-      const encryptionKey = await getEncryptionKey();
-
-      // Determine persistence settings from options and auto-config.
-      const shouldPersistUrl = hybrid || url || (analysis?.shouldPersistInURL);
-      const shouldPersistOffline = hybrid || offline || (analysis?.shouldPersistOffline);
-      const shouldEncrypt = (!!customEncryptionKey) || (analysis?.shouldEncrypt);
-      const shouldCompress = autoConfig ? analysis?.shouldCompress : url; // Also compress if url is true
-      
-      // Persist to URL if configured.
-      if (shouldPersistUrl) {
-      const urlPersistence = new URLPersistence({
-          enabled: true,
-        paramName: key,
-        compress: shouldCompress,
-        encrypt: shouldEncrypt,
-        encryptionKey: encryptionKey || undefined,
-      });
-      const urlResult = await urlPersistence.encodeState(state);
-      if (urlResult.success && urlResult.url) {
-        urlPersistence.updateURL(urlResult.url);
-      }
-      } else {
-         // Clean up URL parameter if URL persistence is disabled.
-        const currentUrl = new URL(window.location.href);
-        if(currentUrl.searchParams.has(key)) {
-            currentUrl.searchParams.delete(key);
-            window.history.replaceState({}, '', currentUrl.toString());
-        }
-       }
-
-      // Persist Offline if configured.
-      if (shouldPersistOffline) {
-        const offlinePersistence = new OfflinePersistence({
-          enabled: true,
-          encrypt: shouldEncrypt,
-          encryptionKey: encryptionKey || undefined,
-        });
-        await offlinePersistence.saveState(key, state);
-      } else {
-        // Clean up offline storage if it's disabled.
-        const offlinePersistence = new OfflinePersistence({ enabled: true });
-        await offlinePersistence.deleteState(key);
-       }
-    };
-
-    persistState().catch(console.error);
-  }, [state, key, autoConfig, debug, url, offline, hybrid, getEncryptionKey, customEncryptionKey]);
-
-  return [state, setState as SetState<T>];
+  const selectionRef = useRef<{ state: T; selector: (state: T) => S; selected: S } | null>(null);
+  const getSelection = () => {
+    const state = store.get();
+    const cached = selectionRef.current;
+    if (cached && Object.is(cached.state, state) && cached.selector === selector) {
+      return cached.selected;
+    }
+
+    const selected = selector(state);
+    const stable = cached && equalityFn(cached.selected, selected) ? cached.selected : selected;
+    selectionRef.current = { state, selector, selected: stable };
+    return stable;
+  };
+
+  // Keep the store alive while this component is mounted.
+  useEffect(() => retainSlugStore(store), [store]);
+
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
 }
 
 // --- Utility Functions ---
@@ -346,12 +270,36 @@ export async function copySlug(): Promise<void> {
  * @template T The expected type of the state data.
  * @param {string} key The key for the data in the URL.
  * @param {object} [options={}] Options for decoding.
- * @param {string} [options.encryptionKey] The encryption key if the data is encrypted.
- * @returns {Promise<T | undefined>} The decoded state data, or undefined if not found or on error.
+ * @param {string} [options.encryptionKey] The encryption key. When set, unencrypted data is rejected.
+ * @param {string} [options.encryptionKeyId] The id the encryption key was recorded with. @default '0'
+ * @param {boolean} [options.allowInsecureFallback] Reads states encrypted with the insecure XOR fallback. @default false
+ * @param {SlugStoreSchema<T>} [options.schema] A validator or Standard Schema the decoded data must satisfy.
+ * @param {'json' | 'flat' | URLCodec} [options.codec] The codec the state was written with. @default 'json'
+ * @param {URLLocation} [options.location] The part of the URL holding the state. @default 'search'
+ * @param {string} [options.pathTemplate] The route of the state when `location` is 'path', e.g. `/board/:state`.
+ * @param {URLDecodingMode} [options.decoding] How forgiving decoding is. Defaults to 'strict' with an `encryptionKey`.
+ * @param {ShortLinkStore} [options.shortLinkStore] Where `@<id>` references are resolved. @default createShortLinkClient()
+ * @param {TypeHandler[]} [options.types] Handlers for types the state was written with that are not built in.
+ * @param {T} [options.baseline] The state 'diff' payloads were taken against, usually the initial state.
+ * @param {CompactionSchema} [options.compaction] The schema the state was compacted with.
+ * @returns {Promise<T | undefined>} The decoded state data, or undefined if not found, invalid or on error.
  */
 export async function getSlugData<T>(
   key: string,
-  options: { encryptionKey?: string } = {}
+  options: {
+    encryptionKey?: string;
+    encryptionKeyId?: string;
+    allowInsecureFallback?: boolean;
+    schema?: SlugStoreSchema<T>;
+    codec?: 'json' | 'flat' | URLCodec;
+    location?: URLLocation;
+    pathTemplate?: string;
+    decoding?: URLDecodingMode;
+    shortLinkStore?: ShortLinkStore;
+    types?: TypeHandler[];
+    baseline?: T;
+    compaction?: CompactionSchema;
+  } = {}
 ): Promise<T | undefined> {
   if (typeof window === 'undefined') {
     return undefined;
@@ -364,12 +312,30 @@ export async function getSlugData<T>(
     compress: 'auto', // Always try to decompress
     encrypt: !!options.encryptionKey,
     encryptionKey: options.encryptionKey,
+    encryptionKeyId: options.encryptionKeyId,
+    allowInsecureFallback: options.allowInsecureFallback,
+    codec: options.codec,
+    location: options.location,
+    pathTemplate: options.pathTemplate,
+    decoding: options.decoding,
+    shortLinkStore: options.shortLinkStore,
+    types: options.types,
+    baseline: options.baseline,
+    compaction: options.compaction,
   });
 
   const result = await urlPersistence.decodeState<T>();
 
   if (result.success) {
-    return result.state;
+    if (!options.schema || result.state === undefined) {
+      return result.state;
+    }
+    const validation = await validateState(options.schema, result.state);
+    if (validation.success) {
+      return validation.value;
+    }
+    console.error(new SlugStoreValidationError(key, 'url', result.state, validation.issues).message);
+    return undefined;
   }
 
   // Do not log an error if the state is simply not present in the URL.
@@ -384,6 +350,65 @@ export async function getSlugData<T>(
   return undefined;
 }
 
+// Export the vanilla store for use outside React components
+export { createSlugStore, getSlugStore, clearAllSlugStores, SlugStorePersistenceError };
+export type { ClearAllSlugStoresOptions } from './registry.js';
+export type {
+  SlugStore,
+  SlugStoreListener,
+  SlugStoreOptions,
+  SlugStoreStateSource,
+  SlugStoreStatus,
+  SlugStoreStatusListener,
+} from './store.js';
+
+// Export URL codecs for use with the `codec` option
+export { createFlatCodec } from './codec.js';
+export type { URLCodec, FlatCodecOptions } from './codec.js';
+
+// Export projection types for use with the `urlFields` option
+export type { StateProjection } from './projection.js';
+
+// Export overflow types for use with the `maxUrlLength` option
+export type { UrlOverflowStrategy, UrlOverflowEvent } from './overflow.js';
+
+// Export the short-link client for use with the `shortLinkStore` option
+export { createShortLinkClient } from './short-links.js';
+export type { ShortLinkStore, ShortLinkClientOptions } from './short-links.js';
+
+// Export serializer names for use with the `serializer` option
+export type { SerializerName } from './serializers.js';
+
+// Export type handlers for use with the `types` option
+export type { TypeHandler } from './tagged-values.js';
+
+// Export compaction schemas for use with the `compaction` option
+export { createCompactionSchema } from './compaction.js';
+export type { CompactionSchema, CompactionSchemaOptions } from './compaction.js';
+
+// Export key generation and encryption errors for use with the `encryptionKey` option
+export { generateKey, EncryptionError } from './encryption.js';
+export type { EncryptionErrorCode } from './encryption.js';
+
+// Export equality helpers for use with useSlugStoreSelector
+export { shallowEqual };
+
 // Export persistence classes for advanced use cases
 export { URLPersistence, OfflinePersistence };
+export type { HistoryMode, URLLocation, URLDecodingMode, URLDecodeErrorCode, URLDecodeResult };
+
+// Export migration helpers for use with the `version` and `migrations` options
+export { migrateState, SlugStoreMigrationError } from './migrations.js';
+export type { Migration, MigrationMap } from './migrations.js';
+
+// Export validation helpers for use with the `schema` option
+export { validateState, SlugStoreValidationError };
+export type {
+  SlugStoreSchema,
+  SlugStoreValidator,
+  StandardSchemaV1,
+  ValidationIssue,
+  ValidationResult,
+  StateSource,
+} from './validation.js';
  
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFlatCodec } from './codec.js';
+import { URLPersistence } from './persistence/url.js';
+
+const template = { view: 'grid', page: 1, showSold: false, tags: [] as string[], price: { max: 100 } };
+
+describe('Flat Codec', () => {
+  it('should write primitive fields as readable params and arrays as repeated params', () => {
+    const params = new URLSearchParams('utm_source=newsletter');
+    createFlatCodec({ template }).encode(
+      { view: 'list', page: 2, showSold: true, tags: ['new', 'sale'], price: { max: 50 } },
+      params,
+      'wishlist'
+    );
+
+    expect(params.toString()).toBe(
+      'utm_source=newsletter&view=list&page=2&showSold=true&tags=new&tags=sale&price.max=50'
+    );
+  });
+
+  it('should coerce values back to the types of the template', () => {
+    const params = new URLSearchParams('view=list&page=2&showSold=true&tags=new&price.max=50&utm_source=newsletter');
+
+    expect(createFlatCodec({ template }).decode(params, 'wishlist')).toEqual({
+      view: 'list',
+      page: 2,
+      showSold: true,
+      tags: ['new'],
+      price: { max: 50 },
+    });
+  });
+
+  it('should keep values that do not fit the template type as strings', () => {
+    const params = new URLSearchParams('page=abc');
+    expect(createFlatCodec({ template }).decode(params, 'wishlist')).toEqual({ page: 'abc' });
+  });
+
+  it('should replace stale params when re-encoding', () => {
+    const params = new URLSearchParams('view=list&tags=old&tags=older');
+    createFlatCodec({ template }).encode({ view: 'grid', tags: ['new'] }, params, 'wishlist');
+    expect(params.getAll('tags')).toEqual(['new']);
+  });
+
+  it('should namespace params with a prefix and read unknown fields as strings', () => {
+    const codec = createFlatCodec({ prefix: 'f.' });
+    const params = new URLSearchParams('view=unrelated');
+    codec.encode({ category: 'books', sizes: ['s', 'm'] }, params, 'filters');
+
+    expect(params.toString()).toBe('view=unrelated&f.category=books&f.sizes=s&f.sizes=m');
+    expect(codec.decode(params, 'filters')).toEqual({ category: 'books', sizes: ['s', 'm'] });
+
+    codec.remove(params, 'filters');
+    expect(params.toString()).toBe('view=unrelated');
+  });
+
+  it('should return undefined when the URL holds no state', () => {
+    expect(createFlatCodec({ template }).decode(new URLSearchParams('utm_source=x'), 'wishlist')).toBeUndefined();
+  });
+
+  it('should not let params reach the prototypes of the page', () => {
+    const query = 'view=list&__proto__.isAdmin=true&constructor.prototype.isAdmin=true';
+
+    expect(createFlatCodec({ template }).decode(new URLSearchParams(query), 'wishlist')).toEqual({ view: 'list' });
+    expect(createFlatCodec().decode(new URLSearchParams(query), 'wishlist')).toEqual({ view: 'list' });
+    expect(createFlatCodec({ prefix: 'f.' }).decode(new URLSearchParams('f.view=list&f.__proto__.isAdmin=true'), 'wishlist'))
+      .toEqual({ view: 'list' });
+    expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+    expect(Object.prototype).not.toHaveProperty('isAdmin');
+  });
+
+  it('should reject values that cannot be written as params', () => {
+    expect(() => createFlatCodec().encode({ items: [{ id: 1 }] }, new URLSearchParams(), 'wishlist'))
+      .toThrow('cannot write "items"');
+  });
+
+  describe('URLPersistence', () => {
+    beforeEach(() => {
+      window.history.replaceState({}, '', 'http://localhost:3000/');
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should round-trip state through readable params', async () => {
+      const persistence = new URLPersistence({ enabled: true, paramName: 'wishlist', codec: createFlatCodec({ template }) });
+      const { url } = await persistence.encodeState({ view: 'list', page: 3 }, 'http://localhost:3000/shop');
+
+      expect(url).toBe('http://localhost:3000/shop?view=list&page=3');
+      expect(await persistence.decodeState(url)).toEqual({ success: true, state: { view: 'list', page: 3 } });
+    });
+
+    it('should refuse to encrypt readable params', async () => {
+      const persistence = new URLPersistence({ enabled: true, codec: 'flat', encrypt: true, encryptionKey: 'secret' });
+      const result = await persistence.encodeState({ view: 'list' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should remove its params from the current URL', () => {
+      window.history.replaceState({}, '', 'http://localhost:3000/?view=list&page=2&ref=home');
+      new URLPersistence({ enabled: true, codec: createFlatCodec({ template }) }).removeState();
+      expect(window.location.search).toBe('?ref=home');
+    });
+  });
+});
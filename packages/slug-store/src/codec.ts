@@ -0,0 +1,195 @@
+// URL Codec Module
+import { isPlainObject } from './objects.js';
+/**
+ * Maps a state to URL search params and back.
+ * The default JSON codec writes the whole state as one (optionally compressed and encrypted)
+ * parameter; other codecs can spread it over several readable parameters.
+ */
+export interface URLCodec {
+  /**
+   * Whether `decode` may return only some fields of the state.
+   * Partial states are merged over the offline state, or over `initialState`.
+   */
+  readonly partial?: boolean;
+  /**
+   * Writes the state into the search params, replacing any value written before.
+   * @param state The state to write.
+   * @param params The search params of the URL being built. Modified in place.
+   * @param paramName The `paramName` of the URLPersistence (the slug-store key).
+   */
+  encode(state: unknown, params: URLSearchParams, paramName: string): void;
+  /**
+   * Reads the state from the search params.
+   * @returns The decoded state, or undefined if the URL holds no state.
+   */
+  decode(params: URLSearchParams, paramName: string): unknown;
+  /** Removes every parameter written by `encode`. Modifies the params in place. */
+  remove(params: URLSearchParams, paramName: string): void;
+}
+
+/**
+ * Options for the flat codec.
+ */
+export interface FlatCodecOptions {
+  /**
+   * A value with the shape of the state, usually `initialState`.
+   * Decoded values are coerced to the type of the matching field: numbers, booleans or arrays.
+   * Without a `prefix`, only parameters named after its top-level fields are read, so unrelated
+   * parameters such as `utm_source` are ignored. Other fields are decoded as strings
+   * (or arrays of strings when repeated), for a `schema` to validate or coerce.
+   */
+  template?: unknown;
+  /**
+   * A prefix for every parameter name, to keep several flat states in one URL apart.
+   * @default ''
+   */
+  prefix?: string;
+}
+
+type Primitive = string | number | boolean;
+
+function isPrimitive(value: unknown): value is Primitive {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Flattens a state into `[path, value]` entries. Nested objects use dot-separated paths
+ * and arrays become repeated entries. `null` and `undefined` fields are left out.
+ */
+function flatten(value: unknown, path: string, entries: [string, string][]): void {
+  if (value === null || value === undefined) return;
+
+  if (isPrimitive(value)) {
+    entries.push([path, String(value)]);
+  } else if (Array.isArray(value) && value.every(isPrimitive)) {
+    value.forEach((item) => entries.push([path, String(item)]));
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, item]) => flatten(item, path ? `${path}.${key}` : key, entries));
+  } else {
+    throw new Error(
+      `The flat codec cannot write "${path || 'state'}": only primitives, arrays of primitives and plain objects ` +
+      `are supported. Leave the field out of the URL with \`omitFromUrl\`.`
+    );
+  }
+}
+
+/** Path segments that would reach into prototypes instead of the state. */
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/** Whether a dot-separated path only names properties of the state itself. */
+function isSafePath(path: string): boolean {
+  return path.split('.').every((segment) => !UNSAFE_SEGMENTS.has(segment));
+}
+
+/** Reads the value at a dot-separated path. */
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, segment) => (isPlainObject(current) && Object.hasOwn(current, segment) ? current[segment] : undefined),
+    value
+  );
+}
+
+/**
+ * Writes a value at a dot-separated path, creating the objects along the way.
+ * The path must be safe (see `isSafePath`).
+ */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split('.');
+  const last = segments.pop()!;
+  let current = target;
+  for (const segment of segments) {
+    if (!Object.hasOwn(current, segment) || !isPlainObject(current[segment])) current[segment] = {};
+    current = current[segment] as Record<string, unknown>;
+  }
+  current[last] = value;
+}
+
+/** Converts a parameter value to the type of the template value, keeping the string if it does not fit. */
+function coerceValue(raw: string, template: unknown): unknown {
+  if (typeof template === 'number') {
+    const number = Number(raw);
+    return raw.trim() !== '' && !Number.isNaN(number) ? number : raw;
+  }
+  if (typeof template === 'boolean') {
+    if (raw === 'true' || raw === '1') return true;
+    if (raw === 'false' || raw === '0') return false;
+  }
+  return raw;
+}
+
+/**
+ * Creates a codec that writes each primitive field of the state as its own readable parameter,
+ * e.g. `?view=grid&filter=high`. Arrays of primitives become repeated parameters
+ * (`?tag=a&tag=b`) and nested objects use dot-separated names (`?price.max=50`).
+ * Readable parameters cannot be compressed or encrypted.
+ *
+ * @param options The template used to coerce decoded values, and an optional parameter prefix.
+ * @returns The codec.
+ *
+ * @example
+ * const persistence = new URLPersistence({
+ *   enabled: true,
+ *   codec: createFlatCodec({ template: { view: 'grid', page: 1, tags: [] } }),
+ * });
+ * // -> https://example.com/?view=list&page=2&tags=new&tags=sale
+ */
+export function createFlatCodec(options: FlatCodecOptions = {}): URLCodec {
+  const { template, prefix = '' } = options;
+
+  /**
+   * Whether a parameter belongs to the state. Without a prefix, only the fields of the template
+   * (and of the state being written) are known.
+   */
+  const ownsParam = (name: string, state?: unknown): boolean => {
+    if (prefix) return name.startsWith(prefix);
+    const field = name.split('.')[0]!;
+    return (isPlainObject(template) && Object.hasOwn(template, field)) || (isPlainObject(state) && Object.hasOwn(state, field));
+  };
+
+  const remove = (params: URLSearchParams, state?: unknown) => {
+    [...new Set(params.keys())]
+      .filter((name) => ownsParam(name, state))
+      .forEach((name) => params.delete(name));
+  };
+
+  return {
+    partial: true,
+    encode(state, params) {
+      if (!isPlainObject(state)) {
+        throw new Error('The flat codec can only write plain object states.');
+      }
+      const entries: [string, string][] = [];
+      flatten(state, '', entries);
+
+      remove(params, state);
+      entries.forEach(([path, value]) => params.append(prefix + path, value));
+    },
+    decode(params) {
+      // Without a prefix or a template, every parameter is read. Paths through `__proto__`
+      // and the like are never read, so a link cannot change the prototypes of the page.
+      const names = [...new Set(params.keys())]
+        .filter((name) => (!prefix && template === undefined) || ownsParam(name))
+        .map((name) => name.substring(prefix.length))
+        .filter(isSafePath);
+      if (names.length === 0) return undefined;
+
+      const state: Record<string, unknown> = {};
+      for (const path of names) {
+        const values = params.getAll(prefix + path);
+        const templateValue = getPath(template, path);
+
+        if (Array.isArray(templateValue)) {
+          setPath(state, path, values.map((value) => coerceValue(value, templateValue[0])));
+        } else if (values.length > 1) {
+          setPath(state, path, values);
+        } else {
+          setPath(state, path, coerceValue(values[0]!, templateValue));
+        }
+      }
+      return state;
+    },
+    remove(params) {
+      remove(params);
+    },
+  };
+}
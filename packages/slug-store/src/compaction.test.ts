@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { compactState, createCompactionSchema, expandState, isCompactedState, type CompactionSchema } from './compaction.js';
+import { setCompressionBackend } from './compression.js';
+import * as zlib from 'node:zlib';
+import { createZlibCompressionBackend } from './zlib-compression.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+import { createSlugStore } from './store.js';
+
+// A small state, where the overhead of generic compression dominates.
+const sample = {
+  items: [{ id: '', name: '', priority: 'low', done: false }],
+  sortBy: 'priority',
+  showDone: true,
+};
+
+const wishlist = {
+  items: [
+    { id: 'a1', name: 'Headphones', priority: 'medium', done: false },
+    { id: 'b2', name: 'Running shoes', priority: 'high', done: false },
+    { id: 'c3', name: 'Desk lamp', priority: 'low', done: true },
+  ],
+  sortBy: 'name',
+  showDone: false,
+};
+
+const schema = createCompactionSchema(sample, {
+  enums: { 'items.priority': ['low', 'medium', 'high'], sortBy: ['priority', 'name'] },
+});
+
+describe('schema compaction', () => {
+  describe('createCompactionSchema', () => {
+    it('should describe the shape of the sample', () => {
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', values: [''] },
+                name: { type: 'string', values: [''] },
+                priority: { type: 'string', values: ['low', 'medium', 'high'] },
+                done: { type: 'any' },
+              },
+            },
+          },
+          sortBy: { type: 'string', values: ['priority', 'name'] },
+          showDone: { type: 'any' },
+        },
+      });
+    });
+
+    it('should merge the shapes of all array items', () => {
+      const merged = createCompactionSchema([{ a: 'x' }, { a: 'y', b: 1 }, { a: 2 }]);
+
+      expect(merged).toEqual({
+        type: 'array',
+        items: { type: 'object', properties: { a: { type: 'any' }, b: { type: 'any' } } },
+      });
+      expect(createCompactionSchema({ tags: ['new'] }, { enums: { tags: ['sale'] } })).toEqual({
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string', values: ['sale', 'new'] } } },
+      });
+    });
+  });
+
+  describe('compactState', () => {
+    it('should write objects by position and known strings as indexes', () => {
+      expect(compactState(wishlist, schema).$d).toEqual([
+        [
+          ['a1', 'Headphones', 1, false],
+          ['b2', 'Running shoes', 2, false],
+          ['c3', 'Desk lamp', 0, true],
+        ],
+        1,
+        false,
+      ]);
+    });
+
+    it('should round-trip states', () => {
+      const compacted = JSON.parse(JSON.stringify(compactState(wishlist, schema)));
+
+      expect(isCompactedState(compacted)).toBe(true);
+      expect(expandState(compacted, schema)).toEqual(wishlist);
+    });
+
+    it('should keep properties the schema does not list', () => {
+      const state = { ...wishlist, theme: 'dark' };
+      const compacted = compactState(state, schema);
+
+      expect(compacted.$d).toEqual([expect.any(Array), 1, false, { theme: 'dark' }]);
+      expect(expandState(compacted, schema)).toEqual(state);
+    });
+
+    it('should leave out missing properties', () => {
+      const state = { items: [{ id: 'a1', priority: 'high' }] };
+      const compacted = compactState(state, schema);
+
+      expect(compacted.$d).toEqual([[['a1', null, 2]]]);
+      expect(expandState(JSON.parse(JSON.stringify(compacted)), schema)).toEqual(state);
+    });
+
+    it('should tell null values from missing properties', () => {
+      const state = { items: [], sortBy: null, showDone: null };
+      const compacted = compactState(state, schema);
+
+      expect(compacted.$d).toEqual([[], { $: null }, { $: null }]);
+      expect(expandState(compacted, schema)).toEqual(state);
+    });
+
+    it('should keep values that do not match the schema', () => {
+      const state = { items: 'none', sortBy: 7, showDone: { $: 1 } };
+      const compacted = compactState(state, schema);
+
+      expect(compacted.$d).toEqual([{ $: 'none' }, { $: 7 }, { $: { $: 1 } }]);
+      expect(expandState(compacted, schema)).toEqual(state);
+    });
+  });
+
+  describe('expandState', () => {
+    it('should reject states compacted with another schema', () => {
+      const other = createCompactionSchema({ ...sample, page: 1 });
+      expect(() => expandState(compactState(wishlist, other), schema)).toThrow('another schema');
+    });
+
+    it('should reject malformed states', () => {
+      const { $c } = compactState(wishlist, schema);
+
+      expect(() => expandState({ $c, $d: { items: [] } }, schema)).toThrow('Invalid compacted object');
+      expect(() => expandState({ $c, $d: [[], 9] }, schema)).toThrow('Invalid compacted string');
+    });
+
+    it('should not follow inherited keys', () => {
+      const hand: CompactionSchema = { type: 'object', properties: { a: { type: 'any' } } };
+      const { $c } = compactState({}, hand);
+      const expanded = expandState({ $c, $d: [1, JSON.parse('{"__proto__":{"polluted":true}}')] }, hand);
+
+      expect(Object.getPrototypeOf(expanded)).toBe(Object.prototype);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+
+  describe('URL persistence', () => {
+    beforeEach(() => {
+      window.history.replaceState({}, '', 'http://localhost:3000/');
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      setCompressionBackend(null);
+      vi.restoreAllMocks();
+    });
+
+    const urlLength = async (options: ConstructorParameters<typeof URLPersistence>[0]) => {
+      const { url } = await new URLPersistence({ enabled: true, paramName: 's', ...options })
+        .encodeState(wishlist, 'http://localhost:3000/');
+      return new URL(url!).search.length;
+    };
+
+    it('should round-trip compacted states', async () => {
+      const persistence = new URLPersistence({ enabled: true, paramName: 's', compaction: schema, version: 2 });
+      const { url } = await persistence.encodeState(wishlist, 'http://localhost:3000/');
+
+      expect(await persistence.decodeState(url!)).toEqual({ success: true, state: wishlist });
+    });
+
+    it('should report states compacted with another schema', async () => {
+      const { url } = await new URLPersistence({ enabled: true, paramName: 's', compaction: schema })
+        .encodeState(wishlist, 'http://localhost:3000/');
+
+      const withoutSchema = await new URLPersistence({ enabled: true, paramName: 's' }).decodeState(url!);
+      const otherSchema = await new URLPersistence({ enabled: true, paramName: 's', compaction: createCompactionSchema(sample) })
+        .decodeState(url!);
+
+      expect(withoutSchema).toMatchObject({ success: false, code: 'SCHEMA_MISMATCH' });
+      expect(otherSchema).toMatchObject({ success: false, code: 'SCHEMA_MISMATCH' });
+    });
+
+    it('should combine with diffs', async () => {
+      const options = { enabled: true, paramName: 's', compaction: schema, encodeAs: 'diff', baseline: wishlist } as const;
+      const state = { ...wishlist, showDone: true };
+      const { url } = await new URLPersistence(options).encodeState(state, 'http://localhost:3000/');
+
+      expect(await new URLPersistence(options).decodeState(url!)).toEqual({ success: true, state });
+    });
+
+    it('should write small states shorter than generic compression', async () => {
+      // Without CompressionStream in tests, `compress: true` writes lz-string.
+      const lzString = await urlLength({ compress: true });
+      expect(await urlLength({ compress: true, compaction: schema })).toBeLessThan(lzString * 0.75);
+
+      setCompressionBackend(createZlibCompressionBackend(zlib));
+      const deflate = await urlLength({ compress: 'deflate-raw' });
+      const gzip = await urlLength({ compress: 'gzip' });
+      const compacted = await urlLength({ compress: false, compaction: schema, serializer: 'msgpack' });
+
+      expect(compacted).toBeLessThan(deflate * 0.6);
+      expect(compacted).toBeLessThan(gzip * 0.6);
+    });
+
+    it('should derive the schema from initialState in stores', async () => {
+      vi.spyOn(OfflinePersistence.prototype, 'loadState').mockResolvedValue({ success: true });
+      vi.spyOn(OfflinePersistence.prototype, 'saveState').mockResolvedValue({ success: true });
+      vi.spyOn(OfflinePersistence.prototype, 'deleteState').mockResolvedValue({ success: true });
+      const store = createSlugStore('wishlist', sample, { url: true, compaction: true });
+      await store.hydrate();
+
+      store.set(wishlist);
+      await store.flush();
+      store.destroy();
+
+      expect(await new URLPersistence({ enabled: true, paramName: 'wishlist' }).decodeState())
+        .toMatchObject({ success: false, code: 'SCHEMA_MISMATCH' });
+
+      const reloaded = createSlugStore('wishlist', sample, { url: true, compaction: true });
+      await reloaded.hydrate();
+
+      expect(reloaded.get()).toEqual(wishlist);
+      reloaded.destroy();
+    });
+  });
+});
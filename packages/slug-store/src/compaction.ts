@@ -0,0 +1,197 @@
+// Schema Compaction Module
+import { setDecodedProperty } from './binary.js';
+import { hashBaseline } from './diff.js';
+import { isPlainObject } from './objects.js';
+
+/**
+ * Describes the shape of a state, so it can be written without its property names:
+ * - 'object' writes the listed properties by position, in order. Other properties are kept
+ *   in a trailing object.
+ * - 'array' writes each item with the `items` schema.
+ * - 'string' writes the listed values as their index, and other strings as they are.
+ * - 'any' writes the value as it is.
+ */
+export type CompactionSchema =
+  | { type: 'object'; properties: Record<string, CompactionSchema> }
+  | { type: 'array'; items: CompactionSchema }
+  | { type: 'string'; values: string[] }
+  | { type: 'any' };
+
+/**
+ * Options for `createCompactionSchema`.
+ */
+export interface CompactionSchemaOptions {
+  /**
+   * The possible values of string properties, keyed by dot-separated key path without array
+   * indexes, e.g. `{ 'items.priority': ['low', 'medium', 'high'] }`. They are added to the
+   * values found in the sample.
+   */
+  enums?: Record<string, string[]>;
+}
+
+/**
+ * A compacted state, with the hash of the schema it was compacted with.
+ */
+export interface CompactedState {
+  $c: string;
+  $d: unknown;
+}
+
+/** The key of the wrapper holding values that do not match their schema. */
+const SCHEMA_ESCAPE_KEY = '$';
+
+/** Combines the schemas of two values found at the same place. */
+function mergeCompactionSchemas(a: CompactionSchema, b: CompactionSchema): CompactionSchema {
+  if (a.type === 'object' && b.type === 'object') {
+    const properties = { ...a.properties };
+    for (const [key, schema] of Object.entries(b.properties)) {
+      properties[key] = properties[key] ? mergeCompactionSchemas(properties[key]!, schema) : schema;
+    }
+    return { type: 'object', properties };
+  }
+  if (a.type === 'array' && b.type === 'array') {
+    return { type: 'array', items: mergeCompactionSchemas(a.items, b.items) };
+  }
+  if (a.type === 'string' && b.type === 'string') {
+    return { type: 'string', values: [...new Set([...a.values, ...b.values])] };
+  }
+  return { type: 'any' };
+}
+
+/**
+ * Derives a compaction schema from a sample state, usually the initial state. Array items
+ * are described by all the items in the sample, and strings by the values found in it.
+ *
+ * @param sample A state with the shape of the states to compact.
+ * @param options The possible values of string properties.
+ * @returns The schema.
+ */
+export function createCompactionSchema(sample: unknown, options: CompactionSchemaOptions = {}): CompactionSchema {
+  const enums = options.enums ?? {};
+
+  const describe = (value: unknown, path: string): CompactionSchema => {
+    // Array items share the path of their array.
+    if (Array.isArray(value)) {
+      const items = value.map((item) => describe(item, path));
+      const first = items[0] ?? (enums[path] ? describe(undefined, path) : { type: 'any' as const });
+      return { type: 'array', items: items.slice(1).reduce(mergeCompactionSchemas, first) };
+    }
+    const known = enums[path];
+    if (known) {
+      const values = typeof value === 'string' ? [value] : [];
+      return { type: 'string', values: [...new Set([...known, ...values])] };
+    }
+    if (typeof value === 'string') {
+      return { type: 'string', values: [value] };
+    }
+    if (isPlainObject(value)) {
+      const properties: Record<string, CompactionSchema> = {};
+      for (const [key, item] of Object.entries(value)) {
+        properties[key] = describe(item, path ? `${path}.${key}` : key);
+      }
+      return { type: 'object', properties };
+    }
+    return { type: 'any' };
+  };
+
+  return describe(sample, '');
+}
+
+/**
+ * Compacts a state with a schema: objects become arrays of their values, and known strings
+ * become indexes. Values that do not match the schema are kept as they are, so any state
+ * can be compacted. Properties set to undefined are left out, as in JSON.
+ *
+ * @param state The state.
+ * @param schema The schema, from `createCompactionSchema` or written by hand.
+ * @returns The compacted state, recording the hash of the schema.
+ */
+export function compactState(state: unknown, schema: CompactionSchema): CompactedState {
+  const compact = (value: unknown, current: CompactionSchema): unknown => {
+    switch (current.type) {
+      case 'object': {
+        if (!isPlainObject(value)) break;
+        const keys = Object.keys(current.properties);
+        // Missing properties are written as null, so null values are escaped.
+        const result = keys.map((key) => {
+          if (value[key] === undefined) return null;
+          const item = compact(value[key], current.properties[key]!);
+          return item === null ? { [SCHEMA_ESCAPE_KEY]: null } : item;
+        });
+        const extra = Object.fromEntries(Object.entries(value).filter(([key]) => !Object.hasOwn(current.properties, key)));
+        if (Object.keys(extra).length > 0) return [...result, extra];
+        // Trailing missing properties are left out.
+        while (result.length > 0 && result[result.length - 1] === null) result.pop();
+        return result;
+      }
+      case 'array':
+        if (!Array.isArray(value)) break;
+        return value.map((item) => compact(item, current.items));
+      case 'string': {
+        if (typeof value !== 'string') break;
+        const index = current.values.indexOf(value);
+        return index === -1 ? value : index;
+      }
+      case 'any':
+        // Objects that look like escaped values are escaped themselves.
+        if (isPlainObject(value) && Object.hasOwn(value, SCHEMA_ESCAPE_KEY)) break;
+        return value;
+    }
+    return { [SCHEMA_ESCAPE_KEY]: value };
+  };
+
+  return { $c: hashBaseline(schema), $d: compact(state, schema) };
+}
+
+/**
+ * Checks whether a decoded value is a state compacted by `compactState`.
+ */
+export function isCompactedState(value: unknown): value is CompactedState {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 2 && typeof value.$c === 'string' && '$d' in value;
+}
+
+/**
+ * Expands a state compacted by `compactState`.
+ *
+ * @param compacted The compacted state.
+ * @param schema The schema it was compacted with.
+ * @returns The state.
+ * @throws If the state was compacted with another schema, or is malformed.
+ */
+export function expandState(compacted: CompactedState, schema: CompactionSchema): unknown {
+  if (compacted.$c !== hashBaseline(schema)) {
+    throw new Error('The state was compacted with another schema');
+  }
+
+  const expand = (value: unknown, current: CompactionSchema): unknown => {
+    if (isPlainObject(value) && Object.hasOwn(value, SCHEMA_ESCAPE_KEY)) return value[SCHEMA_ESCAPE_KEY];
+
+    switch (current.type) {
+      case 'any':
+        return value;
+      case 'object': {
+        if (!Array.isArray(value)) break;
+        const keys = Object.keys(current.properties);
+        const extra = value[keys.length];
+        const result: Record<string, unknown> = isPlainObject(extra) ? { ...extra } : {};
+        keys.forEach((key, index) => {
+          const item = value[index];
+          if (item !== undefined && item !== null) setDecodedProperty(result, key, expand(item, current.properties[key]!));
+        });
+        return result;
+      }
+      case 'array':
+        if (!Array.isArray(value)) break;
+        return value.map((item) => expand(item, current.items));
+      case 'string':
+        if (typeof value === 'string') return value;
+        if (typeof value === 'number' && value in current.values) return current.values[value];
+        break;
+    }
+    throw new TypeError(`Invalid compacted ${current.type}`);
+  };
+
+  return expand(compacted.$d, schema);
+}
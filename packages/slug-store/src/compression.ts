@@ -1,9 +1,36 @@
 // Compression Module
+import { BASE64_PATTERN, encodeBase64Url, decodeBase64, toBinaryString } from './base64.js';
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from './lz-string.js';
+
 /**
  * The available compression algorithms.
  * 'auto' will dynamically select the best available algorithm.
  */
-export type CompressionAlgorithm = 'lz-string' | 'gzip' | 'brotli' | 'auto';
+export type CompressionAlgorithm = 'lz-string' | 'gzip' | 'deflate-raw' | 'brotli' | 'auto';
+
+/**
+ * The algorithms that compress bytes and depend on a `CompressionBackend`.
+ */
+export type BinaryCompressionAlgorithm = 'gzip' | 'deflate-raw' | 'brotli';
+
+/**
+ * Compresses bytes with the algorithms the runtime provides. The default backend uses
+ * `CompressionStream`; `slug-store/server` switches to `node:zlib`.
+ */
+export interface CompressionBackend {
+  /**
+   * Whether the backend can compress with an algorithm. Decompression is attempted regardless,
+   * since some runtimes can decompress formats they cannot write.
+   */
+  supports(algorithm: BinaryCompressionAlgorithm): boolean;
+  /**
+   * Compresses bytes.
+   * @param level The compression level, from 1 (fastest) to 11 (best), if the backend honours levels.
+   */
+  compress(data: Uint8Array, algorithm: BinaryCompressionAlgorithm, level?: number): Promise<Uint8Array>;
+  /** Decompresses bytes. */
+  decompress(data: Uint8Array, algorithm: BinaryCompressionAlgorithm): Promise<Uint8Array>;
+}
 
 /**
  * Configuration options for compression functions.
@@ -12,12 +39,120 @@ export interface CompressionOptions {
   /** The compression algorithm to use. */
   algorithm?: CompressionAlgorithm;
   /**
-   * The compression level for 'gzip' or 'brotli'.
-   * Ranges from 1 (fastest) to 11 (best compression).
+   * The compression level for 'gzip', 'deflate-raw' or 'brotli'.
+   * Ranges from 1 (fastest) to 11 (best compression). `CompressionStream` ignores it.
    */
   level?: number;
 }
 
+/**
+ * A compressed string together with the algorithm that actually produced it.
+ */
+export interface CompressionResult {
+  /** The compressed, base64url-encoded string. */
+  data: string;
+  /**
+   * The algorithm used. This can differ from the requested one: 'auto' resolves to a concrete
+   * algorithm, and an algorithm the runtime cannot use falls back to another one that it can,
+   * or to 'lz-string'.
+   */
+  algorithm: Exclude<CompressionAlgorithm, 'auto'>;
+}
+
+// --- Backends ---
+
+/** The `CompressionStream` format of each algorithm. */
+const STREAM_FORMATS: Record<BinaryCompressionAlgorithm, string> = {
+  gzip: 'gzip',
+  'deflate-raw': 'deflate-raw',
+  brotli: 'brotli',
+};
+
+/**
+ * Runs bytes through a `CompressionStream` or `DecompressionStream`, reading while writing
+ * so that large outputs cannot stall the stream.
+ * @private
+ */
+async function transformBytes(data: Uint8Array, stream: ReadableWritablePair<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  const chunks: Uint8Array[] = [];
+  const read = async () => {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  };
+  await Promise.all([writer.write(data).then(() => writer.close()), read()]);
+
+  const output = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * The default backend, using the `CompressionStream` API of browsers, Node.js and edge runtimes.
+ * Which formats it supports is detected rather than assumed: browsers write gzip and
+ * deflate-raw, but few write brotli.
+ */
+export const streamCompressionBackend: CompressionBackend = {
+  supports(algorithm) {
+    if (typeof globalThis.CompressionStream !== 'function') return false;
+    try {
+      new CompressionStream(STREAM_FORMATS[algorithm] as CompressionFormat);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  compress(data, algorithm) {
+    return transformBytes(data, new CompressionStream(STREAM_FORMATS[algorithm] as CompressionFormat));
+  },
+  decompress(data, algorithm) {
+    if (typeof globalThis.DecompressionStream !== 'function') {
+      return Promise.reject(new Error('DecompressionStream API not available'));
+    }
+    return transformBytes(data, new DecompressionStream(STREAM_FORMATS[algorithm] as CompressionFormat));
+  },
+};
+
+let compressionBackend: CompressionBackend = streamCompressionBackend;
+
+/**
+ * Replaces the backend used for 'gzip', 'deflate-raw' and 'brotli'.
+ * `slug-store/server` installs a `node:zlib` backend when it is imported, where `node:zlib` is available.
+ *
+ * @param backend The backend, or null to restore `streamCompressionBackend`.
+ */
+export function setCompressionBackend(backend: CompressionBackend | null): void {
+  compressionBackend = backend ?? streamCompressionBackend;
+}
+
+/**
+ * Returns the backend used for 'gzip', 'deflate-raw' and 'brotli'.
+ */
+export function getCompressionBackend(): CompressionBackend {
+  return compressionBackend;
+}
+
+/**
+ * Checks whether an algorithm can be used to compress in this runtime.
+ *
+ * @param algorithm The algorithm.
+ * @returns True if `compress` would use it rather than fall back.
+ */
+export function supportsCompression(algorithm: Exclude<CompressionAlgorithm, 'auto'>): boolean {
+  return algorithm === 'lz-string' || compressionBackend.supports(algorithm);
+}
+
+// --- Compression ---
+
 /**
  * Compresses a string using the specified algorithm.
  * If the algorithm is 'auto', it selects the most suitable one based on data size and browser support.
@@ -25,22 +160,95 @@ export interface CompressionOptions {
  * @param data The string to compress.
  * @param algorithm The compression algorithm to use.
  * @param options Additional compression options like level.
- * @returns A promise that resolves to the compressed, Base64-encoded string.
+ * @returns A promise that resolves to the compressed, base64url-encoded string.
  */
 export async function compress(data: string, algorithm: CompressionAlgorithm = 'auto', options: CompressionOptions = {}): Promise<string> {
+  return (await compressWithAlgorithm(data, algorithm, options)).data;
+}
+
+/**
+ * Compresses a string like `compress`, and reports the algorithm that was actually used,
+ * so it can be recorded next to the compressed data.
+ *
+ * @param data The string to compress.
+ * @param algorithm The compression algorithm to use.
+ * @param options Additional compression options like level.
+ * @returns A promise that resolves to the compressed string and its algorithm.
+ */
+export async function compressWithAlgorithm(
+  data: string,
+  algorithm: CompressionAlgorithm = 'auto',
+  options: CompressionOptions = {}
+): Promise<CompressionResult> {
+  return compressInput(data, algorithm, options);
+}
+
+/**
+ * Compresses bytes, such as a binary-serialized state, and reports the algorithm used.
+ *
+ * @param data The bytes to compress.
+ * @param algorithm The compression algorithm to use.
+ * @param options Additional compression options like level.
+ * @returns A promise that resolves to the compressed string and its algorithm.
+ */
+export async function compressBytes(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm = 'auto',
+  options: CompressionOptions = {}
+): Promise<CompressionResult> {
+  return compressInput(data, algorithm, options);
+}
+
+/**
+ * Compresses text or bytes with the requested algorithm, or the best one the runtime supports.
+ * @private
+ */
+async function compressInput(
+  data: string | Uint8Array,
+  algorithm: CompressionAlgorithm,
+  options: CompressionOptions
+): Promise<CompressionResult> {
   if (algorithm === 'auto') {
-    algorithm = await selectBestAlgorithm(data);
+    algorithm = selectBestAlgorithm(data.length);
   }
 
-  switch (algorithm) {
-    case 'lz-string':
-      return compressLZString(data);
-    case 'gzip':
-      return compressGzip(data, options.level);
-    case 'brotli':
-      return compressBrotli(data, options.level);
-    default:
-      return data;
+  if (algorithm !== 'lz-string') {
+    // Try the requested algorithm, then the portable ones, before falling back to LZ-String
+    const candidates = new Set<BinaryCompressionAlgorithm>([algorithm, 'deflate-raw', 'gzip']);
+    for (const candidate of candidates) {
+      if (!compressionBackend.supports(candidate)) continue;
+      try {
+        return { data: await compressBinary(data, candidate, options.level), algorithm: candidate };
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+  const lzInput = typeof data === 'string' ? data : toBinaryString(data);
+  return { data: compressLZString(lzInput), algorithm: 'lz-string' };
+}
+
+/**
+ * Decompresses bytes written by `compressBytes`.
+ *
+ * @param data The compressed string.
+ * @param algorithm The algorithm it was compressed with.
+ * @returns A promise that resolves to the original bytes.
+ * @throws If the data is corrupt or the runtime cannot decompress the algorithm.
+ */
+export async function decompressBytes(data: string, algorithm: Exclude<CompressionAlgorithm, 'auto'>): Promise<Uint8Array> {
+  if (algorithm === 'lz-string') {
+    const binary = decompressFromEncodedURIComponent(data);
+    if (binary === null || /[^\x00-\xff]/.test(binary)) {
+      throw new Error('Failed to decompress with LZ-String: the data is not compressed bytes');
+    }
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  }
+
+  try {
+    return await compressionBackend.decompress(decodeBase64(data), algorithm);
+  } catch (e) {
+    throw new Error(`Failed to decompress with ${algorithm}: ${e instanceof Error ? e.message : 'Unknown error'}`);
   }
 }
 
@@ -50,7 +258,7 @@ export async function compress(data: string, algorithm: CompressionAlgorithm = '
  * It tries to parse the data as JSON first, and if that fails, attempts various
  * decompression algorithms until one succeeds in producing valid JSON.
  *
- * @param data The compressed, Base64-encoded string to decompress.
+ * @param data The compressed string to decompress, in Base64 or base64url.
  * @param algorithm The specific algorithm to use, or 'auto' to try all possibilities.
  * @returns A promise that resolves to the decompressed JSON string.
  * @throws If the input is invalid or all decompression attempts fail.
@@ -67,9 +275,9 @@ export async function decompress(data: string, algorithm?: CompressionAlgorithm)
       case 'lz-string':
         return decompressLZString(data);
       case 'gzip':
-        return decompressGzip(data);
+      case 'deflate-raw':
       case 'brotli':
-        return decompressBrotli(data);
+        return decompressBinary(data, algorithm);
       default:
         return data;
     }
@@ -89,8 +297,9 @@ export async function decompress(data: string, algorithm?: CompressionAlgorithm)
   // Try decompression algorithms in order of likelihood
   const algorithms: Array<{ name: CompressionAlgorithm; fn: (data: string) => Promise<string> | string }> = [
     { name: 'lz-string', fn: decompressLZString },
-    { name: 'brotli', fn: decompressBrotli },
-    { name: 'gzip', fn: decompressGzip }
+    { name: 'brotli', fn: (data) => decompressBinary(data, 'brotli') },
+    { name: 'gzip', fn: (data) => decompressBinary(data, 'gzip') },
+    { name: 'deflate-raw', fn: (data) => decompressBinary(data, 'deflate-raw') }
   ];
 
   let lastError: Error | null = null;
@@ -126,20 +335,20 @@ export async function decompress(data: string, algorithm?: CompressionAlgorithm)
 }
 
 /**
- * Compresses a string using a basic LZ-String-like implementation (Base64 encoding).
+ * Compresses a string with LZ-String, written in the URL-safe base64url alphabet.
  * This serves as a universal fallback when modern compression APIs are not available.
  *
  * @param data The string to compress.
  * @returns The compressed string.
  */
 function compressLZString(data: string): string {
-  // Simple implementation - in production, use a proper LZ-String library
-  return btoa(unescape(encodeURIComponent(data)));
+  return compressToEncodedURIComponent(data);
 }
 
 /**
  * Decompresses a string that was compressed with `compressLZString`.
- * It includes a fallback to return the original data if it's already valid JSON,
+ * Earlier versions wrote plain Base64 as 'lz-string', so Base64 that does not decompress
+ * is decoded as such. It also returns the original data if it's already valid JSON,
  * making it resilient to being passed uncompressed data.
  *
  * @param data The string to decompress.
@@ -148,8 +357,30 @@ function compressLZString(data: string): string {
  */
 function decompressLZString(data: string): string {
   try {
-    // First check if data looks like base64
-    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+    const decompressed = decompressFromEncodedURIComponent(data);
+    if (decompressed) {
+      JSON.parse(decompressed);
+      return decompressed;
+    }
+  } catch {
+    // Not LZ-String output; try the legacy Base64 encoding below
+  }
+  return decompressLegacyLZString(data);
+}
+
+/**
+ * Decodes the plain Base64 that earlier versions wrote as 'lz-string' compression.
+ * It includes a fallback to return the original data if it's already valid JSON,
+ * making it resilient to being passed uncompressed data.
+ *
+ * @param data The Base64 or base64url string.
+ * @returns The decoded string.
+ * @throws If decoding fails and the original data is not valid JSON.
+ */
+export function decompressLegacyLZString(data: string): string {
+  try {
+    // First check if data looks like base64 (either alphabet)
+    if (!BASE64_PATTERN.test(data)) {
       // Not base64, might already be decompressed
       try {
         JSON.parse(data);
@@ -159,7 +390,7 @@ function decompressLZString(data: string): string {
       }
     }
 
-    const decoded = decodeURIComponent(escape(atob(data)));
+    const decoded = new TextDecoder('utf-8', { fatal: true }).decode(decodeBase64(data));
     
     // Verify the decoded result is valid JSON
     try {
@@ -186,197 +417,56 @@ function decompressLZString(data: string): string {
 }
 
 /**
- * Compresses a string using the native browser 'gzip' CompressionStream.
- * Falls back to LZ-String if the API is unavailable.
+ * Compresses text or bytes with the current backend.
  *
- * @param data The string to compress.
- * @param level The compression level (not officially supported by CompressionStream yet).
- * @returns A promise resolving to the compressed string.
+ * @param data The string or bytes to compress.
+ * @param algorithm The algorithm.
+ * @param level The compression level, if the backend honours levels.
+ * @returns A promise resolving to the compressed, base64url-encoded string.
+ * @throws If the backend cannot compress with the algorithm.
  */
-async function compressGzip(data: string, level: number = 6): Promise<string> {
-  if (typeof window === 'undefined' || !window.CompressionStream) {
-    return compressLZString(data); // Fallback
-  }
-
+async function compressBinary(data: string | Uint8Array, algorithm: BinaryCompressionAlgorithm, level?: number): Promise<string> {
   try {
-    const stream = new CompressionStream('gzip');
-    const writer = stream.writable.getWriter();
-    const reader = stream.readable.getReader();
-    
-    const encoder = new TextEncoder();
-    const chunk = encoder.encode(data);
-    await writer.write(chunk);
-    await writer.close();
-    
-    const chunks: Uint8Array[] = [];
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const compressed = await compressionBackend.compress(bytes, algorithm, level);
+    if (compressed.length === 0) {
+      throw new Error('The backend produced no output');
     }
-    
-    const compressed = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
-    let offset = 0;
-    for (const chunk of chunks) {
-      compressed.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    return btoa(String.fromCharCode(...compressed));
-  } catch {
-    return compressLZString(data); // Fallback
+    return encodeBase64Url(compressed);
+  } catch (e) {
+    throw new Error(`Failed to compress with ${algorithm}: ${e instanceof Error ? e.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Decompresses a Gzip-compressed string using the native DecompressionStream.
+ * Decompresses a string written by `compressBinary`, in this or any other runtime.
  *
- * @param data The string to decompress.
+ * @param data The string to decompress, in Base64 or base64url.
+ * @param algorithm The algorithm it was compressed with.
  * @returns A promise resolving to the decompressed string.
- * @throws If the API is unavailable or decompression fails.
+ * @throws If the backend cannot decompress the algorithm, or the data is corrupt.
  */
-async function decompressGzip(data: string): Promise<string> {
-  if (typeof window === 'undefined' || !window.DecompressionStream) {
-    throw new Error('DecompressionStream API not available');
-  }
-
-  try {
-    const stream = new DecompressionStream('gzip');
-    const writer = stream.writable.getWriter();
-    const reader = stream.readable.getReader();
-    
-    const compressed = new Uint8Array(atob(data).split('').map(c => c.charCodeAt(0)));
-    await writer.write(compressed);
-    await writer.close();
-    
-    const chunks: Uint8Array[] = [];
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
-    }
-    
-    const decompressed = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
-    let offset = 0;
-    for (const chunk of chunks) {
-      decompressed.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    return new TextDecoder().decode(decompressed);
-  } catch(e) {
-    throw new Error('Failed to decompress with Gzip');
-  }
+async function decompressBinary(data: string, algorithm: BinaryCompressionAlgorithm): Promise<string> {
+  const decompressed = await decompressBytes(data, algorithm);
+  return new TextDecoder('utf-8', { fatal: true }).decode(decompressed);
 }
 
 /**
- * Compresses a string using the native browser 'brotli' CompressionStream.
- * Falls back to LZ-String if the API is unavailable.
+ * Selects the best compression algorithm based on data size and runtime capabilities.
+ * Brotli is never selected automatically: most browsers cannot decompress it, and links
+ * written on one runtime must decode on every other.
  *
- * @param data The string to compress.
- * @param level The compression level.
- * @returns A promise resolving to the compressed string.
+ * @param size The length of the input, in characters or bytes.
+ * @returns The name of the selected algorithm.
  */
-async function compressBrotli(data: string, level: number = 11): Promise<string> {
-  if (typeof window === 'undefined' || !window.CompressionStream) {
-    return compressLZString(data); // Fallback
-  }
-
-  try {
-    const stream = new CompressionStream('br' as any);
-    const writer = stream.writable.getWriter();
-    const reader = stream.readable.getReader();
-    
-    const encoder = new TextEncoder();
-    const chunk = encoder.encode(data);
-    await writer.write(chunk);
-    await writer.close();
-    
-    const chunks: Uint8Array[] = [];
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
-    }
-    
-    const compressed = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
-    let offset = 0;
-    for (const chunk of chunks) {
-      compressed.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    return btoa(String.fromCharCode(...compressed));
-  } catch {
-    return compressLZString(data); // Fallback
-  }
-}
-
-/**
- * Decompresses a Brotli-compressed string using the native DecompressionStream.
- *
- * @param data The string to decompress.
- * @returns A promise resolving to the decompressed string.
- * @throws If the API is unavailable or decompression fails.
- */
-async function decompressBrotli(data: string): Promise<string> {
-  if (typeof window === 'undefined' || !window.DecompressionStream) {
-    throw new Error('DecompressionStream API not available');
-  }
-
-  try {
-    const stream = new DecompressionStream('br' as any);
-    const writer = stream.writable.getWriter();
-    const reader = stream.readable.getReader();
-    
-    const compressed = new Uint8Array(atob(data).split('').map(c => c.charCodeAt(0)));
-    await writer.write(compressed);
-    await writer.close();
-    
-    const chunks: Uint8Array[] = [];
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
-    }
-    
-    const decompressed = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
-    let offset = 0;
-    for (const chunk of chunks) {
-      decompressed.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    return new TextDecoder().decode(decompressed);
-  } catch(e) {
-    throw new Error('Failed to decompress with Brotli');
-  }
-}
-
-/**
- * Selects the best compression algorithm based on data size and browser capabilities.
- * Prefers native, more efficient algorithms for larger data when available.
- *
- * @param data The input data string.
- * @returns A promise resolving to the name of the selected algorithm.
- */
-async function selectBestAlgorithm(data: string): Promise<CompressionAlgorithm> {
-  if (typeof window === 'undefined') {
+function selectBestAlgorithm(size: number): Exclude<CompressionAlgorithm, 'auto'> {
+  // For small data, LZ-String is better
+  if (size < 1000) {
     return 'lz-string';
   }
-
-  // Check browser support
-  const hasGzip = window.CompressionStream && window.DecompressionStream;
-  
-  if (hasGzip) {
-    // For small data, LZ-String might be better
-    if (data.length < 1000) {
-      return 'lz-string';
-    }
-    // For larger data, use brotli if available, otherwise gzip
-    return 'brotli';
-  }
-  
+  // deflate-raw is gzip without its header and checksum, so it is always shorter
+  if (compressionBackend.supports('deflate-raw')) return 'deflate-raw';
+  if (compressionBackend.supports('gzip')) return 'gzip';
   return 'lz-string';
 }
 
@@ -398,4 +488,4 @@ function detectAlgorithm(data: string): CompressionAlgorithm {
   } catch {
     return 'lz-string'; // Default fallback
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { applyStatePatch, createStatePatch, hashBaseline, isStatePatch } from './diff.js';
+import { URLPersistence } from './persistence/url.js';
+import { createSlugStore } from './store.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+const initialState = {
+  view: 'grid',
+  filters: { category: 'all', price: { min: 0, max: 1000 }, tags: ['new'] },
+  columns: ['name', 'price', 'stock', 'supplier', 'updated'],
+  pageSize: 50,
+  since: new Date('2024-01-01T00:00:00.000Z'),
+};
+
+const changedState = {
+  ...initialState,
+  view: 'list',
+  filters: { ...initialState.filters, price: { min: 0, max: 250 }, tags: ['new', 'sale'] },
+  since: new Date('2024-06-01T00:00:00.000Z'),
+};
+
+describe('state diffs', () => {
+  describe('createStatePatch', () => {
+    it('should only record what changed', () => {
+      const { $o } = createStatePatch(initialState, changedState);
+
+      expect($o).toEqual([
+        [['view'], 'list'],
+        [['filters', 'price', 'max'], 250],
+        [['filters', 'tags', 1], 'sale'],
+        [['since'], changedState.since],
+      ]);
+    });
+
+    it('should record removed keys and shrunk arrays', () => {
+      const { pageSize: _, ...rest } = initialState;
+      const state = { ...rest, columns: ['name'] };
+
+      expect(createStatePatch(initialState, state).$o).toEqual([
+        [['columns'], ['name']],
+        [['pageSize']],
+      ]);
+    });
+
+    it('should record nothing for an unchanged state', () => {
+      const copy = { ...initialState, since: new Date(initialState.since) };
+      expect(createStatePatch(initialState, copy).$o).toEqual([]);
+    });
+
+    it('should replace states of another type', () => {
+      expect(createStatePatch({ a: 1 }, [1]).$o).toEqual([[[], [1]]]);
+    });
+  });
+
+  describe('applyStatePatch', () => {
+    it('should rebuild the state without modifying the baseline', () => {
+      const snapshot = structuredClone(initialState);
+      const patch = createStatePatch(initialState, changedState);
+
+      expect(applyStatePatch(initialState, patch)).toEqual(changedState);
+      expect(initialState).toEqual(snapshot);
+    });
+
+    it('should share what the patch does not touch', () => {
+      const patched = applyStatePatch(initialState, createStatePatch(initialState, changedState)) as typeof initialState;
+      expect(patched.columns).toBe(initialState.columns);
+    });
+
+    it('should apply removals and replacements', () => {
+      const { pageSize: _, ...state } = { ...initialState, columns: ['name'] };
+      expect(applyStatePatch(initialState, createStatePatch(initialState, state))).toEqual(state);
+    });
+
+    it('should reject operations that do not fit the baseline', () => {
+      expect(() => applyStatePatch(initialState, { $b: '', $o: [[['view', 'mode'], 1]] })).toThrow('Invalid patch path');
+      expect(() => applyStatePatch(initialState, { $b: '', $o: [[[{}] as never]] })).toThrow('Invalid patch operation');
+      expect(() => applyStatePatch(initialState, { $b: '', $o: [[[]]] })).toThrow('whole state');
+    });
+
+    it('should not follow inherited keys', () => {
+      const patch = { $b: '', $o: [[['__proto__', 'polluted'], true]] } as never;
+
+      expect(() => applyStatePatch(initialState, patch)).toThrow('Invalid patch path');
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+
+  describe('hashBaseline', () => {
+    it('should not depend on key order', () => {
+      expect(hashBaseline({ a: 1, b: { c: 2, d: 3 } })).toBe(hashBaseline({ b: { d: 3, c: 2 }, a: 1 }));
+    });
+
+    it('should change with the baseline', () => {
+      expect(hashBaseline(initialState)).not.toBe(hashBaseline({ ...initialState, pageSize: 25 }));
+    });
+  });
+
+  it('should recognise patches', () => {
+    expect(isStatePatch(createStatePatch(initialState, changedState))).toBe(true);
+    expect(isStatePatch({ $b: 'x', $o: [], other: 1 })).toBe(false);
+    expect(isStatePatch(initialState)).toBe(false);
+  });
+
+  describe('URL persistence', () => {
+    beforeEach(() => {
+      window.history.replaceState({}, '', 'http://localhost:3000/');
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const encode = async (options: ConstructorParameters<typeof URLPersistence>[0], state: unknown) => {
+      const { url } = await new URLPersistence({ enabled: true, paramName: 's', compress: false, ...options })
+        .encodeState(state, 'http://localhost:3000/');
+      return url!;
+    };
+
+    it('should write shorter links', async () => {
+      const slightlyChanged = { ...initialState, view: 'list' };
+
+      expect((await encode({ encodeAs: 'diff', baseline: initialState }, slightlyChanged)).length)
+        .toBeLessThan((await encode({}, slightlyChanged)).length / 2);
+      expect((await encode({ encodeAs: 'diff', baseline: initialState }, changedState)).length)
+        .toBeLessThan((await encode({}, changedState)).length);
+    });
+
+    it('should rebuild the full state', async () => {
+      const diffUrl = await encode({ encodeAs: 'diff', baseline: initialState }, changedState);
+
+      expect(await new URLPersistence({ enabled: true, paramName: 's', baseline: initialState }).decodeState(diffUrl))
+        .toEqual({ success: true, state: changedState });
+    });
+
+    it('should report diffs taken against another baseline', async () => {
+      const url = await encode({ encodeAs: 'diff', baseline: initialState }, changedState);
+
+      const withoutBaseline = await new URLPersistence({ enabled: true, paramName: 's' }).decodeState(url);
+      const otherBaseline = await new URLPersistence({ enabled: true, paramName: 's', baseline: { ...initialState, pageSize: 25 } })
+        .decodeState(url);
+
+      expect(withoutBaseline).toMatchObject({ success: false, code: 'BASELINE_MISMATCH' });
+      expect(otherBaseline).toMatchObject({ success: false, code: 'BASELINE_MISMATCH' });
+    });
+
+    it('should report diffs written for another state version', async () => {
+      const url = await encode({ encodeAs: 'diff', baseline: initialState, version: 1 }, changedState);
+      const result = await new URLPersistence({ enabled: true, paramName: 's', baseline: initialState, version: 2 }).decodeState(url);
+
+      expect(result).toMatchObject({ success: false, code: 'BASELINE_MISMATCH' });
+    });
+
+    it('should still decode full states when a baseline is set', async () => {
+      const url = await encode({}, changedState);
+      const result = await new URLPersistence({ enabled: true, paramName: 's', baseline: initialState }).decodeState(url);
+
+      expect(result).toEqual({ success: true, state: changedState });
+    });
+
+    it('should require a baseline to encode diffs', () => {
+      expect(() => new URLPersistence({ encodeAs: 'diff' })).toThrow('baseline');
+    });
+
+    it('should diff against initialState in stores', async () => {
+      vi.spyOn(OfflinePersistence.prototype, 'loadState').mockResolvedValue({ success: true });
+      vi.spyOn(OfflinePersistence.prototype, 'saveState').mockResolvedValue({ success: true });
+      vi.spyOn(OfflinePersistence.prototype, 'deleteState').mockResolvedValue({ success: true });
+      const store = createSlugStore('table', initialState, { url: true, encodeAs: 'diff' });
+      await store.hydrate();
+
+      store.set(changedState);
+      await store.flush();
+      store.destroy();
+
+      // Only readers that know the baseline can rebuild the state.
+      expect(await new URLPersistence({ enabled: true, paramName: 'table' }).decodeState())
+        .toMatchObject({ success: false, code: 'BASELINE_MISMATCH' });
+
+      const reloaded = createSlugStore('table', initialState, { url: true, encodeAs: 'diff' });
+      await reloaded.hydrate();
+
+      expect(reloaded.get()).toEqual(changedState);
+      reloaded.destroy();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+// State Diff Module
+import { setDecodedProperty } from './binary.js';
+import { isPlainObject } from './objects.js';
+import { encodeTaggedValues } from './tagged-values.js';
+
+/**
+ * Structural patches between a baseline, usually the initial state, and the current state.
+ * Share links written as patches only carry what the user changed.
+ *
+ * A patch is a list of operations, each a key path and the value to set there. Operations
+ * without a value remove the key. Arrays are patched item by item while they keep or grow
+ * their length, and replaced when they shrink.
+ */
+
+/** Object keys and array indexes leading to a value. An empty path is the whole state. */
+export type PatchPath = Array<string | number>;
+
+/** Sets the value at a path, or removes the key at the path when there is no value. */
+export type PatchOperation = [path: PatchPath, value: unknown] | [path: PatchPath];
+
+/**
+ * A persisted patch: the hash of the baseline it was taken against, and its operations.
+ */
+export interface StatePatch {
+  $b: string;
+  $o: PatchOperation[];
+}
+
+/** Whether a patch can reach into a value: plain objects and arrays. */
+function isContainer(value: unknown): value is Record<string | number, unknown> {
+  return isPlainObject(value) || Array.isArray(value);
+}
+
+/** Serializes a value as JSON with sorted keys, so equal values serialize equally. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(encodeTaggedValues(value), (_, current: unknown) => {
+    if (!isPlainObject(current)) return current;
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(current).sort()) {
+      setDecodedProperty(sorted, key, current[key]);
+    }
+    return sorted;
+  }) ?? '';
+}
+
+/**
+ * Hashes a baseline, so patches taken against another baseline are detected.
+ * The hash (32-bit FNV-1a) notices changed baselines; it does not protect against tampering.
+ *
+ * @param baseline The baseline.
+ * @returns The hash, in base 36.
+ */
+export function hashBaseline(baseline: unknown): string {
+  const text = stableStringify(baseline);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Creates the patch turning a baseline into a state.
+ *
+ * @param baseline The baseline.
+ * @param state The state.
+ * @returns The patch, recording the hash of the baseline.
+ */
+export function createStatePatch(baseline: unknown, state: unknown): StatePatch {
+  const operations: PatchOperation[] = [];
+
+  const diff = (base: unknown, target: unknown, path: PatchPath): void => {
+    if (Object.is(base, target)) return;
+
+    if (isPlainObject(base) && isPlainObject(target)) {
+      for (const [key, value] of Object.entries(target)) {
+        if (Object.hasOwn(base, key)) {
+          diff(base[key], value, [...path, key]);
+        } else {
+          operations.push([[...path, key], value]);
+        }
+      }
+      for (const key of Object.keys(base)) {
+        if (!Object.hasOwn(target, key)) operations.push([[...path, key]]);
+      }
+      return;
+    }
+
+    if (Array.isArray(base) && Array.isArray(target) && target.length >= base.length) {
+      target.forEach((value, index) => {
+        if (index < base.length) {
+          diff(base[index], value, [...path, index]);
+        } else {
+          operations.push([[...path, index], value]);
+        }
+      });
+      return;
+    }
+
+    // Dates, Maps, Sets and other values are compared by what is persisted for them.
+    if (!isContainer(base) && !isContainer(target) && stableStringify(base) === stableStringify(target)) return;
+
+    operations.push([path, target]);
+  };
+
+  diff(baseline, state, []);
+  return { $b: hashBaseline(baseline), $o: operations };
+}
+
+/**
+ * Checks whether a decoded value is a patch produced by `createStatePatch`.
+ */
+export function isStatePatch(value: unknown): value is StatePatch {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 2 && typeof value.$b === 'string' && Array.isArray(value.$o);
+}
+
+/**
+ * Applies a patch to the baseline it was taken against. The baseline is not modified:
+ * the objects and arrays on the patched paths are copied, and the rest is shared.
+ *
+ * @param baseline The baseline. Check `patch.$b` against `hashBaseline(baseline)` first.
+ * @param patch The patch.
+ * @returns The patched state.
+ * @throws {TypeError} If an operation is malformed or its path does not exist in the baseline.
+ */
+export function applyStatePatch(baseline: unknown, patch: StatePatch): unknown {
+  const copies = new Set<unknown>();
+  const copy = (value: Record<string | number, unknown>): Record<string | number, unknown> => {
+    if (copies.has(value)) return value;
+    const copied = (Array.isArray(value) ? value.slice() : { ...value }) as Record<string | number, unknown>;
+    copies.add(copied);
+    return copied;
+  };
+
+  let root = baseline;
+  for (const operation of patch.$o) {
+    const [path, ...value] = Array.isArray(operation) ? operation : [];
+    if (!Array.isArray(path) || !path.every((key) => typeof key === 'string' || typeof key === 'number')) {
+      throw new TypeError('Invalid patch operation');
+    }
+    if (path.length === 0) {
+      if (value.length === 0) throw new TypeError('Cannot remove the whole state');
+      root = value[0];
+      continue;
+    }
+
+    // Copy each container on the path, so the baseline is left untouched.
+    if (!isContainer(root)) throw new TypeError(`Invalid patch path "${path.join('.')}"`);
+    let parent = copy(root);
+    root = parent;
+    for (const key of path.slice(0, -1)) {
+      const child = Object.hasOwn(parent, key) ? parent[key] : undefined;
+      if (!isContainer(child)) throw new TypeError(`Invalid patch path "${path.join('.')}"`);
+      const copied = copy(child);
+      setDecodedProperty(parent, key, copied);
+      parent = copied;
+    }
+
+    const key = path[path.length - 1]!;
+    if (value.length === 0) {
+      delete parent[key];
+    } else {
+      setDecodedProperty(parent, key, value[0]);
+    }
+  }
+  return root;
+}
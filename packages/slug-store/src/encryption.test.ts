@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { encrypt, decrypt, generateKey, EncryptionError } from './encryption.js';
+import { encodePayload, decodePayload } from './payload.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+const plaintext = JSON.stringify({ user: 'ada', token: 'secret-token-1234' });
+const key = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
+
+/** A copy of `key` with one bit flipped. */
+const nearlyTheKey = (() => {
+  const bytes = Uint8Array.from(atob(key), (c) => c.charCodeAt(0));
+  bytes[31] = bytes[31]! ^ 1;
+  return btoa(String.fromCharCode(...bytes));
+})();
+
+describe('encryption', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should round-trip with AES-GCM', async () => {
+    const encrypted = await encrypt(plaintext, key);
+
+    expect(encrypted).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(encrypted).not.toContain(btoa(plaintext).slice(0, 8));
+    expect(await decrypt(encrypted, key)).toBe(plaintext);
+  });
+
+  it('should use a fresh IV for each encryption', async () => {
+    expect(await encrypt(plaintext, key)).not.toBe(await encrypt(plaintext, key));
+  });
+
+  it('should generate usable 256-bit keys', async () => {
+    const generated = await generateKey();
+
+    expect(atob(generated)).toHaveLength(32);
+    expect(await decrypt(await encrypt(plaintext, generated), generated)).toBe(plaintext);
+  });
+
+  describe('wrong keys', () => {
+    it('should never decrypt with another key', async () => {
+      const encrypted = await encrypt(plaintext, key);
+      const otherKeys = [nearlyTheKey, await generateKey(), await generateKey(), 'AAECAwQFBgcICQoLDA0ODw=='];
+
+      for (const otherKey of otherKeys) {
+        await expect(decrypt(encrypted, otherKey)).rejects.toMatchObject({ name: 'EncryptionError', code: 'DECRYPTION_FAILED' });
+      }
+    });
+
+    it('should not fall back to XOR, even when allowed', async () => {
+      const encrypted = await encrypt(plaintext, key);
+
+      await expect(decrypt(encrypted, nearlyTheKey, { allowInsecureFallback: true }))
+        .rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('should reject modified data', async () => {
+      const encrypted = await encrypt(plaintext, key);
+      const modified = encrypted.slice(0, -2) + (encrypted.endsWith('AA') ? 'AB' : 'AA');
+
+      await expect(decrypt(modified, key)).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('should reject keys AES-GCM cannot use', async () => {
+      await expect(encrypt(plaintext, 'my-secret-key')).rejects.toMatchObject({ code: 'INVALID_KEY' });
+      await expect(encrypt(plaintext, 'not base64!')).rejects.toMatchObject({ code: 'INVALID_KEY' });
+      await expect(decrypt(await encrypt(plaintext, key), 'c2hvcnQ=')).rejects.toMatchObject({ code: 'INVALID_KEY' });
+      await expect(encrypt(plaintext, '')).rejects.toMatchObject({ code: 'MISSING_KEY' });
+    });
+  });
+
+  describe('without Web Crypto', () => {
+    beforeEach(() => {
+      vi.stubGlobal('crypto', undefined);
+    });
+
+    it('should fail instead of falling back to XOR', async () => {
+      const failure = encrypt(plaintext, key);
+
+      await expect(failure).rejects.toBeInstanceOf(EncryptionError);
+      await expect(failure).rejects.toMatchObject({ code: 'CRYPTO_UNAVAILABLE' });
+      await expect(generateKey()).rejects.toMatchObject({ code: 'CRYPTO_UNAVAILABLE' });
+    });
+
+    it('should use marked XOR only with allowInsecureFallback', async () => {
+      const encrypted = await encrypt(plaintext, key, { allowInsecureFallback: true });
+
+      expect(encrypted).toMatch(/^x\./);
+      expect(await decrypt(encrypted, key, { allowInsecureFallback: true })).toBe(plaintext);
+      await expect(decrypt(encrypted, key)).rejects.toMatchObject({ code: 'INSECURE_ALGORITHM' });
+    });
+
+    it('should not write unencrypted payloads', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const result = await new URLPersistence({ enabled: true, paramName: 's', encrypt: true, encryptionKey: key })
+        .encodeState({ token: 'secret-token-1234' }, 'http://localhost:3000/');
+
+      expect(result).toMatchObject({ success: false, error: expect.stringContaining('Web Crypto') });
+      expect(result.url).toBeUndefined();
+    });
+  });
+
+  it('should refuse XOR unless allowed', async () => {
+    await expect(encrypt(plaintext, key, { algorithm: 'simple' })).rejects.toMatchObject({ code: 'INSECURE_ALGORITHM' });
+  });
+
+  describe('persistence', () => {
+    beforeEach(() => {
+      window.history.replaceState({}, '', 'http://localhost:3000/');
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should report payloads decrypted with the wrong key', async () => {
+      const payload = await encodePayload(plaintext, { encryptionKey: key });
+
+      await expect(decodePayload(payload, { encryptionKey: nearlyTheKey })).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('should not load URL states with the wrong key', async () => {
+      const state = { token: 'secret-token-1234' };
+      const { url } = await new URLPersistence({ enabled: true, paramName: 's', encrypt: true, encryptionKey: key })
+        .encodeState(state, 'http://localhost:3000/');
+
+      expect(url).not.toContain('secret-token');
+      expect(await new URLPersistence({ enabled: true, paramName: 's', encryptionKey: nearlyTheKey }).decodeState(url!))
+        .toMatchObject({ success: false, code: 'DECRYPTION_FAILED' });
+      expect(await new URLPersistence({ enabled: true, paramName: 's', encryptionKey: key }).decodeState(url!))
+        .toEqual({ success: true, state });
+    });
+
+    it('should reject unencrypted URL states when encryption is configured', async () => {
+      const { url } = await new URLPersistence({ enabled: true, paramName: 's' })
+        .encodeState({ isAdmin: true }, 'http://localhost:3000/');
+      const persistence = new URLPersistence({ enabled: true, paramName: 's', encrypt: true, encryptionKey: key });
+
+      expect(await persistence.decodeState(url!)).toMatchObject({ success: false, code: 'UNENCRYPTED_PAYLOAD' });
+      expect(await persistence.decodeState('http://localhost:3000/?s=%257B%2522isAdmin%2522%253Atrue%257D'))
+        .toMatchObject({ success: false });
+      expect(await persistence.decodeState('http://localhost:3000/?s=c_eyJpc0FkbWluIjp0cnVlfQ'))
+        .toMatchObject({ success: false, code: 'UNENCRYPTED_PAYLOAD' });
+    });
+
+    it('should read offline entries written with the insecure fallback only when allowed', async () => {
+      vi.stubGlobal('crypto', undefined);
+      const options = { enabled: true, storage: 'localstorage', encrypt: true, encryptionKey: key } as const;
+      await new OfflinePersistence({ ...options, allowInsecureFallback: true }).saveState('session', { user: 'ada' });
+
+      const [, stored] = vi.mocked(localStorage.setItem).mock.lastCall!;
+      expect(JSON.parse(stored).payload).toMatch(/^v1\.j\.n\.0\.x\./);
+
+      vi.mocked(localStorage.getItem).mockReturnValue(stored);
+      expect(await new OfflinePersistence({ ...options, allowInsecureFallback: true }).loadState('session'))
+        .toMatchObject({ success: true, data: { user: 'ada' } });
+      expect(await new OfflinePersistence(options).loadState('session')).toMatchObject({ success: false });
+      vi.mocked(localStorage.getItem).mockReset();
+    });
+  });
+});
@@ -1,156 +1,252 @@
 // Encryption Module
+import { encodeBase64Url, decodeBase64 } from './base64.js';
+
+/**
+ * States are encrypted with AES-GCM through Web Crypto, `globalThis.crypto`, which browsers,
+ * Node.js 19+ and edge runtimes provide. AES-GCM authenticates what it decrypts, so a wrong
+ * key or a modified payload fails instead of returning garbage.
+ *
+ * Encryption never silently degrades: without Web Crypto, or with an unusable key, it throws
+ * an `EncryptionError`. The repeating-key XOR of earlier versions only protects against
+ * casual reading, and is only used when `allowInsecureFallback` is set. Its output is marked,
+ * so it is never mistaken for AES-GCM output, and the other way round.
+ */
+
 export interface EncryptionOptions {
+  /**
+   * 'simple' is repeating-key XOR, which anyone can reverse. It requires `allowInsecureFallback`.
+   * @default 'AES-GCM'
+   */
   algorithm?: 'AES-GCM' | 'simple';
   key?: string;
+  /**
+   * Uses repeating-key XOR when Web Crypto is not available, and decrypts payloads written with it,
+   * including the unmarked XOR payloads of earlier versions.
+   * XOR does not keep the state secret; only set this when obfuscation is enough.
+   * @default false
+   */
+  allowInsecureFallback?: boolean;
 }
 
-// Generate a cryptographically secure key
-export async function generateKey(): Promise<string> {
-  if (typeof window !== 'undefined' && window.crypto) {
-    const key = await window.crypto.subtle.generateKey(
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
+/**
+ * Why a state could not be encrypted or decrypted.
+ */
+export type EncryptionErrorCode =
+  | 'MISSING_KEY'
+  | 'INVALID_KEY'
+  | 'CRYPTO_UNAVAILABLE'
+  | 'INSECURE_ALGORITHM'
+  | 'ENCRYPTION_FAILED'
+  | 'DECRYPTION_FAILED';
+
+/**
+ * Raised when a state cannot be encrypted or decrypted.
+ */
+export class EncryptionError extends Error {
+  readonly name = 'EncryptionError';
+
+  constructor(
+    message: string,
+    /** Why the state could not be encrypted or decrypted. */
+    readonly code: EncryptionErrorCode
+  ) {
+    super(message);
+  }
+}
+
+/** Marks XOR output. `.` is not in the Base64 alphabets, so AES-GCM output never starts with it. */
+const INSECURE_PREFIX = 'x.';
+/** The length of the AES-GCM initialization vector, in bytes. */
+const IV_LENGTH = 12;
+/** The AES key lengths Web Crypto accepts, in bytes. */
+const AES_KEY_LENGTHS = [16, 24, 32];
+
+/** Returns Web Crypto, which is missing in old runtimes and on insecure (non-HTTPS) pages. */
+function getWebCrypto(): Crypto | undefined {
+  return typeof globalThis.crypto?.subtle === 'object' ? globalThis.crypto : undefined;
+}
+
+function requireWebCrypto(): Crypto {
+  const crypto = getWebCrypto();
+  if (!crypto) {
+    throw new EncryptionError(
+      'Web Crypto is not available: encryption requires globalThis.crypto.subtle (a secure context in browsers).',
+      'CRYPTO_UNAVAILABLE'
+    );
+  }
+  return crypto;
+}
+
+function requireInsecureFallback(options: EncryptionOptions): void {
+  if (!options.allowInsecureFallback) {
+    throw new EncryptionError(
+      'XOR encryption is not secure. Set allowInsecureFallback to use it.',
+      'INSECURE_ALGORITHM'
     );
-    const exported = await window.crypto.subtle.exportKey('raw', key);
-    return btoa(String.fromCharCode(...new Uint8Array(exported)));
-  }
-  
-  // Fallback for server-side or older browsers
-  const array = new Uint8Array(32);
-  if (typeof window !== 'undefined' && window.crypto) {
-    window.crypto.getRandomValues(array);
-  } else {
-    // Simple fallback - not cryptographically secure
-    for (let i = 0; i < array.length; i++) {
-      array[i] = Math.floor(Math.random() * 256);
-    }
   }
-  return btoa(String.fromCharCode(...array));
 }
 
-// Encrypt data
+/**
+ * Generates a 256-bit AES key.
+ *
+ * @returns The key, in Base64.
+ * @throws {EncryptionError} If Web Crypto is not available.
+ */
+export async function generateKey(): Promise<string> {
+  const { subtle } = requireWebCrypto();
+  const key = await subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const exported = await subtle.exportKey('raw', key);
+  return btoa(String.fromCharCode(...new Uint8Array(exported)));
+}
+
+/**
+ * Encrypts a string with AES-GCM.
+ *
+ * @param data The string to encrypt.
+ * @param key A 128, 192 or 256-bit key in Base64, e.g. from `generateKey`.
+ * @param options The algorithm, and whether the insecure XOR fallback may be used.
+ * @returns The encrypted string, in base64url.
+ * @throws {EncryptionError} If there is no usable key, or Web Crypto is not available and
+ *   `allowInsecureFallback` is not set.
+ */
 export async function encrypt(data: string, key: string, options: EncryptionOptions = {}): Promise<string> {
   if (!key) {
-    throw new Error('Encryption key is required');
+    throw new EncryptionError('Encryption key is required', 'MISSING_KEY');
   }
 
-  const algorithm = options.algorithm || 'AES-GCM';
-  
-  if (algorithm === 'AES-GCM' && typeof window !== 'undefined' && window.crypto) {
-    return encryptAES(data, key);
+  if (options.algorithm === 'simple' || (!getWebCrypto() && options.allowInsecureFallback)) {
+    requireInsecureFallback(options);
+    return INSECURE_PREFIX + encryptSimple(data, key);
   }
-  
-  // Fallback to simple encoding
-  return encryptSimple(data, key);
+  return encryptAES(data, key);
 }
 
-// Decrypt data
+/**
+ * Decrypts a string encrypted by `encrypt`.
+ *
+ * @param data The encrypted string.
+ * @param key The key it was encrypted with.
+ * @param options Whether strings encrypted with the insecure XOR fallback may be decrypted.
+ * @returns The decrypted string.
+ * @throws {EncryptionError} If the key is wrong or unusable, the data was modified, or it was
+ *   encrypted with XOR and `allowInsecureFallback` is not set. With `allowInsecureFallback`,
+ *   unmarked data that AES-GCM cannot decrypt is read as XOR output of earlier versions.
+ */
 export async function decrypt(data: string, key: string, options: EncryptionOptions = {}): Promise<string> {
   if (!key) {
-    throw new Error('Encryption key is required');
+    throw new EncryptionError('Encryption key is required', 'MISSING_KEY');
   }
 
-  const algorithm = options.algorithm || 'AES-GCM';
-  
-  if (algorithm === 'AES-GCM' && typeof window !== 'undefined' && window.crypto) {
+  if (data.startsWith(INSECURE_PREFIX)) {
+    requireInsecureFallback(options);
+    return decryptSimple(data.slice(INSECURE_PREFIX.length), key);
+  }
+  if (!options.allowInsecureFallback) {
     return decryptAES(data, key);
   }
-  
-  // Fallback to simple decoding
-  return decryptSimple(data, key);
+
+  // Earlier versions wrote XOR output without the prefix. It cannot be told apart from AES-GCM
+  // output, so it is only tried when AES-GCM fails, and only accepted if it decrypts to text.
+  try {
+    return await decryptAES(data, key);
+  } catch (error) {
+    try {
+      return decryptSimple(data, key, true);
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/** Imports a Base64 AES key for one operation. */
+async function importAESKey(crypto: Crypto, key: string, usage: KeyUsage): Promise<CryptoKey> {
+  let keyData: Uint8Array;
+  try {
+    keyData = decodeBase64(key);
+  } catch {
+    throw new EncryptionError('The encryption key is not Base64. Use a key from generateKey().', 'INVALID_KEY');
+  }
+  if (!AES_KEY_LENGTHS.includes(keyData.length)) {
+    throw new EncryptionError(
+      `The encryption key is ${keyData.length * 8} bits long; AES-GCM needs 128, 192 or 256 bits. Use a key from generateKey().`,
+      'INVALID_KEY'
+    );
+  }
+  try {
+    return await crypto.subtle.importKey('raw', keyData, { name: 'AES-GCM' }, false, [usage]);
+  } catch (error) {
+    throw new EncryptionError(`The encryption key could not be imported: ${error instanceof Error ? error.message : 'Unknown error'}`, 'INVALID_KEY');
+  }
 }
 
 // AES-GCM encryption using Web Crypto API
 async function encryptAES(data: string, key: string): Promise<string> {
+  const crypto = requireWebCrypto();
+  const cryptoKey = await importAESKey(crypto, key, 'encrypt');
+
   try {
-    // Import the key
-    const keyData = Uint8Array.from(atob(key), c => c.charCodeAt(0));
-    const cryptoKey = await window.crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'AES-GCM' },
-      false,
-      ['encrypt']
-    );
-    
-    // Generate IV
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    
-    // Encrypt
-    const encoded = new TextEncoder().encode(data);
-    const encrypted = await window.crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      cryptoKey,
-      encoded
-    );
-    
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(data));
+
     // Combine IV and encrypted data
     const result = new Uint8Array(iv.length + encrypted.byteLength);
     result.set(iv);
     result.set(new Uint8Array(encrypted), iv.length);
-    
-    return btoa(String.fromCharCode(...result));
+
+    // URL-safe, since encrypted payloads are written to URLs
+    return encodeBase64Url(result);
   } catch (error) {
-    // Fallback to simple encryption
-    return encryptSimple(data, key);
+    throw new EncryptionError(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'ENCRYPTION_FAILED');
   }
 }
 
 // AES-GCM decryption using Web Crypto API
 async function decryptAES(data: string, key: string): Promise<string> {
+  const crypto = requireWebCrypto();
+  const cryptoKey = await importAESKey(crypto, key, 'decrypt');
+
   try {
-    // Import the key
-    const keyData = Uint8Array.from(atob(key), c => c.charCodeAt(0));
-    const cryptoKey = await window.crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'AES-GCM' },
-      false,
-      ['decrypt']
-    );
-    
     // Extract IV and encrypted data
-    const combined = Uint8Array.from(atob(data), c => c.charCodeAt(0));
-    const iv = combined.slice(0, 12);
-    const encrypted = combined.slice(12);
-    
-    // Decrypt
-    const decrypted = await window.crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      cryptoKey,
-      encrypted
-    );
-    
-    return new TextDecoder().decode(decrypted);
-  } catch (error) {
-    // Fallback to simple decryption
-    return decryptSimple(data, key);
+    const combined = decodeBase64(data);
+    const iv = combined.slice(0, IV_LENGTH);
+    const encrypted = combined.slice(IV_LENGTH);
+
+    // Fails on a wrong key or modified data, which AES-GCM's authentication tag detects.
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, cryptoKey, encrypted);
+    return new TextDecoder('utf-8', { fatal: true }).decode(decrypted);
+  } catch {
+    throw new EncryptionError('The key is wrong or the data was modified.', 'DECRYPTION_FAILED');
   }
 }
 
-// Simple encryption (XOR with key) - not secure, just for fallback
+// Simple encryption (XOR with key) - not secure, only used with allowInsecureFallback
 function encryptSimple(data: string, key: string): string {
   const keyBytes = new TextEncoder().encode(key);
   const dataBytes = new TextEncoder().encode(data);
   const result = new Uint8Array(dataBytes.length);
-  
+
   for (let i = 0; i < dataBytes.length; i++) {
-    result[i] = dataBytes[i] ^ keyBytes[i % keyBytes.length];
+    result[i] = dataBytes[i]! ^ keyBytes[i % keyBytes.length]!;
   }
-  
-  return btoa(String.fromCharCode(...result));
+
+  return encodeBase64Url(result);
 }
 
-// Simple decryption (XOR with key) - not secure, just for fallback
-function decryptSimple(data: string, key: string): string {
+// Simple decryption (XOR with key) - not secure, only used with allowInsecureFallback.
+// `fatal` rejects output that is not UTF-8, which is what a wrong key or algorithm produces.
+function decryptSimple(data: string, key: string, fatal = false): string {
   const keyBytes = new TextEncoder().encode(key);
-  const dataBytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  let dataBytes: Uint8Array;
+  try {
+    dataBytes = decodeBase64(data);
+  } catch {
+    throw new EncryptionError('The data is not Base64.', 'DECRYPTION_FAILED');
+  }
   const result = new Uint8Array(dataBytes.length);
-  
+
   for (let i = 0; i < dataBytes.length; i++) {
-    result[i] = dataBytes[i] ^ keyBytes[i % keyBytes.length];
+    result[i] = dataBytes[i]! ^ keyBytes[i % keyBytes.length]!;
   }
-  
-  return new TextDecoder().decode(result);
-} 
\ No newline at end of file
+
+  return new TextDecoder('utf-8', { fatal }).decode(result);
+}
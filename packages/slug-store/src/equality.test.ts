@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { shallowEqual } from './equality.js';
+
+describe('shallowEqual', () => {
+  it('should compare plain objects one level deep', () => {
+    const items = ['Starship'];
+    expect(shallowEqual({ view: 'grid', items }, { view: 'grid', items })).toBe(true);
+    expect(shallowEqual({ view: 'grid', items }, { view: 'grid', items: ['Starship'] })).toBe(false);
+    expect(shallowEqual({ view: 'grid' }, { view: 'grid', filter: undefined })).toBe(false);
+  });
+
+  it('should compare arrays item by item', () => {
+    expect(shallowEqual([1, 'a', NaN], [1, 'a', NaN])).toBe(true);
+    expect(shallowEqual([1, 2], [1, 2, 3])).toBe(false);
+    expect(shallowEqual([{}], [{}])).toBe(false);
+  });
+
+  it('should compare Maps and Sets by their entries', () => {
+    expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 1]]))).toBe(true);
+    expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+    expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(shallowEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+  });
+
+  it('should not consider values of different shapes equal', () => {
+    expect(shallowEqual<unknown>([], {})).toBe(false);
+    expect(shallowEqual<unknown>(null, {})).toBe(false);
+    expect(shallowEqual<unknown>(1, '1')).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+// Equality Helpers Module
+/**
+ * Compares two values one level deep.
+ * Arrays are equal when their items are identical, plain objects when they have the same keys
+ * with identical values, and Maps and Sets when they hold identical entries.
+ * Useful as the `equalityFn` of `useSlugStoreSelector` when a selector returns a new object or array.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns True if the values are shallowly equal.
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (Array.isArray(a)) {
+    const other = b as unknown as unknown[];
+    return a.length === other.length && a.every((item, index) => Object.is(item, other[index]));
+  }
+
+  if (a instanceof Map) {
+    const other = b as unknown as Map<unknown, unknown>;
+    if (a.size !== other.size) return false;
+    for (const [key, value] of a) {
+      if (!other.has(key) || !Object.is(value, other.get(key))) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set) {
+    const other = b as unknown as Set<unknown>;
+    if (a.size !== other.size) return false;
+    for (const value of a) {
+      if (!other.has(value)) return false;
+    }
+    return true;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compressToBase64,
+  compressToEncodedURIComponent,
+  decompressFromBase64,
+  decompressFromEncodedURIComponent,
+} from './lz-string.js';
+import { encodeBase64Url } from './base64.js';
+import { compress, decompress } from './compression.js';
+
+// Realistic states, as apps keep them in slug-store.
+const stateFixtures = {
+  wishlist: {
+    items: Array.from({ length: 25 }, (_, i) => ({
+      id: `item-${i}`,
+      name: ['Wireless headphones', 'Running shoes', 'Coffee grinder', 'Desk lamp', 'Backpack'][i % 5],
+      price: 19.99 + i * 5,
+      currency: 'USD',
+      inStock: i % 4 !== 0,
+      tags: i % 2 ? ['sale', 'popular'] : ['new'],
+    })),
+    sortBy: 'price',
+    view: 'grid',
+  },
+  board: {
+    columns: ['todo', 'doing', 'done'].map((id) => ({
+      id,
+      cards: Array.from({ length: 8 }, (_, i) => ({
+        id: `${id}-${i}`,
+        title: `Review the ${id} pull request #${100 + i}`,
+        assignee: ['ana', 'kofi', 'li'][i % 3],
+        labels: ['frontend', 'bug'],
+      })),
+    })),
+  },
+  filters: {
+    query: 'mid-century modern chair',
+    categories: ['furniture', 'living-room', 'office'],
+    price: { min: 50, max: 400 },
+    colors: ['walnut', 'oak', 'black'],
+    page: 3,
+    view: 'list',
+  },
+};
+
+const base64Length = (text: string) => encodeBase64Url(new TextEncoder().encode(text)).length;
+
+describe('LZ-String', () => {
+  describe('round trips', () => {
+    const inputs = [
+      '',
+      'a',
+      'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      '{"view":"grid","tags":["sale"]}',
+      '¿Qué? 日本語 😀 '.repeat(20),
+      JSON.stringify(stateFixtures.board),
+    ];
+
+    it.each(inputs.map((input) => [input.substring(0, 20), input]))('should round-trip "%s"', (_, input) => {
+      expect(decompressFromEncodedURIComponent(compressToEncodedURIComponent(input))).toBe(input);
+      expect(decompressFromBase64(compressToBase64(input))).toBe(input);
+    });
+
+    it('should only write characters URLs never escape', () => {
+      const compressed = compressToEncodedURIComponent(JSON.stringify(stateFixtures.wishlist));
+      expect(compressed).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(encodeURIComponent(compressed)).toBe(compressed);
+    });
+
+    it('should write padded standard Base64', () => {
+      expect(compressToBase64(JSON.stringify(stateFixtures.filters))).toMatch(/^[A-Za-z0-9+/]+={0,2}$/);
+      expect(compressToBase64('a').length % 4).toBe(0);
+    });
+
+    it('should reject input that is not a compressed string', () => {
+      expect(decompressFromEncodedURIComponent('not compressed!')).toBeNull();
+      expect(decompressFromBase64('A')).toBeNull();
+    });
+  });
+
+  describe('compression', () => {
+    it('should decompress payloads written as plain Base64 by earlier versions', async () => {
+      const json = JSON.stringify(stateFixtures.filters);
+      const legacy = btoa(json);
+
+      expect(await decompress(legacy, 'lz-string')).toBe(json);
+      expect(await decompress(legacy)).toBe(json);
+    });
+
+    it('should round-trip through compress and decompress', async () => {
+      const json = JSON.stringify(stateFixtures.wishlist);
+      const compressed = await compress(json, 'lz-string');
+
+      expect(compressed).toBe(compressToEncodedURIComponent(json));
+      expect(await decompress(compressed, 'lz-string')).toBe(json);
+    });
+  });
+
+  describe('benchmarks', () => {
+    it.each(Object.entries(stateFixtures))('should write the %s state shorter than Base64', (_, state) => {
+      const json = JSON.stringify(state);
+
+      // Plain Base64, written as lz-string before, is a third larger than the JSON.
+      expect(compressToEncodedURIComponent(json).length).toBeLessThan(base64Length(json));
+    });
+
+    it.each([
+      ['wishlist', 0.6],
+      ['board', 0.5],
+    ] as const)('should shrink the %s state below %s of its JSON', (name, ratio) => {
+      const json = JSON.stringify(stateFixtures[name]);
+      expect(compressToEncodedURIComponent(json).length).toBeLessThan(json.length * ratio);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+// LZ-String Module
+/**
+ * An LZ-based string compressor in the style of LZ-String: an LZW variant with a dictionary
+ * that grows as the input is read and codes that widen as the dictionary grows. The compressed
+ * bits are packed into 6-bit characters of a Base64 alphabet, so the output is plain text.
+ *
+ * It needs no browser APIs and works synchronously, which makes it the fallback whenever
+ * CompressionStream is unavailable, and it compresses short JSON better than gzip.
+ */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** The base64url alphabet: URLs never escape these characters. */
+const URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const BITS_PER_CHAR = 6;
+
+/** Codes with a special meaning; dictionary entries start after them. */
+const CODE_CHAR_8 = 0;
+const CODE_CHAR_16 = 1;
+const CODE_END = 2;
+
+/** Maps each character of an alphabet to its value. */
+function indexAlphabet(alphabet: string): Map<string, number> {
+  return new Map([...alphabet].map((char, index) => [char, index]));
+}
+
+const BASE64_VALUES = indexAlphabet(BASE64_ALPHABET);
+const URL_VALUES = indexAlphabet(URL_ALPHABET);
+
+/**
+ * Compresses a string into a stream of codes, written `bitsPerChar` bits at a time.
+ * @private
+ */
+function compressToBits(input: string, bitsPerChar: number, charOf: (value: number) => string): string {
+  const dictionary = new Map<string, number>();
+  // Single characters that are in the dictionary but have not been written out yet.
+  const pendingChars = new Set<string>();
+  let dictSize = 3;
+  let numBits = 2;
+  // The first dictionary entry does not widen the codes.
+  let enlargeIn = 2;
+  let w = '';
+
+  const output: string[] = [];
+  let buffer = 0;
+  let position = 0;
+
+  /** Writes the lowest `count` bits of a value, least significant bit first. */
+  const writeBits = (value: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      buffer = (buffer << 1) | (value & 1);
+      value >>= 1;
+      if (position === bitsPerChar - 1) {
+        position = 0;
+        output.push(charOf(buffer));
+        buffer = 0;
+      } else {
+        position++;
+      }
+    }
+  };
+
+  /** Counts down to the next dictionary size at which codes need another bit. */
+  const countDown = () => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  };
+
+  /** Writes the code for a phrase, introducing it first if it is a new single character. */
+  const writePhrase = (phrase: string) => {
+    if (pendingChars.has(phrase)) {
+      const charCode = phrase.charCodeAt(0);
+      if (charCode < 256) {
+        writeBits(CODE_CHAR_8, numBits);
+        writeBits(charCode, 8);
+      } else {
+        writeBits(CODE_CHAR_16, numBits);
+        writeBits(charCode, 16);
+      }
+      countDown();
+      pendingChars.delete(phrase);
+    } else {
+      writeBits(dictionary.get(phrase)!, numBits);
+    }
+    countDown();
+  };
+
+  for (const c of input.split('')) {
+    if (!dictionary.has(c)) {
+      dictionary.set(c, dictSize++);
+      pendingChars.add(c);
+    }
+
+    const wc = w + c;
+    if (dictionary.has(wc)) {
+      w = wc;
+    } else {
+      writePhrase(w);
+      dictionary.set(wc, dictSize++);
+      w = c;
+    }
+  }
+
+  if (w !== '') {
+    writePhrase(w);
+  }
+  writeBits(CODE_END, numBits);
+
+  // Flush the last, partially filled character.
+  while (true) {
+    buffer <<= 1;
+    if (position === bitsPerChar - 1) {
+      output.push(charOf(buffer));
+      break;
+    }
+    position++;
+  }
+  return output.join('');
+}
+
+/**
+ * Reads a stream of codes written by `compressToBits`.
+ * @returns The decompressed string, or null if the stream is malformed or truncated.
+ * @private
+ */
+function decompressFromBits(length: number, bitsPerChar: number, valueAt: (index: number) => number): string | null {
+  const resetValue = 1 << (bitsPerChar - 1);
+  const dictionary: string[] = [];
+  let dictSize = 4;
+  let numBits = 3;
+  let enlargeIn = 4;
+
+  let value = valueAt(0);
+  let position = resetValue;
+  let index = 1;
+
+  /** Reads `count` bits, least significant bit first. */
+  const readBits = (count: number) => {
+    let bits = 0;
+    for (let power = 1; power !== 1 << count; power <<= 1) {
+      const bit = value & position;
+      position >>= 1;
+      if (position === 0) {
+        position = resetValue;
+        value = valueAt(index++);
+      }
+      if (bit) bits |= power;
+    }
+    return bits;
+  };
+
+  let w: string;
+  switch (readBits(2)) {
+    case CODE_CHAR_8:
+      w = String.fromCharCode(readBits(8));
+      break;
+    case CODE_CHAR_16:
+      w = String.fromCharCode(readBits(16));
+      break;
+    case CODE_END:
+      return '';
+    default:
+      return null;
+  }
+  dictionary[3] = w;
+  const result = [w];
+
+  while (true) {
+    if (index > length) {
+      return null;
+    }
+
+    let code = readBits(numBits);
+    switch (code) {
+      case CODE_CHAR_8:
+      case CODE_CHAR_16:
+        dictionary[dictSize++] = String.fromCharCode(readBits(code === CODE_CHAR_8 ? 8 : 16));
+        code = dictSize - 1;
+        enlargeIn--;
+        break;
+      case CODE_END:
+        return result.join('');
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+
+    let entry = dictionary[code];
+    if (entry === undefined) {
+      // The only code that may be used before it is defined is the next one.
+      if (code !== dictSize) return null;
+      entry = w + w.charAt(0);
+    }
+    result.push(entry);
+
+    dictionary[dictSize++] = w + entry.charAt(0);
+    enlargeIn--;
+    w = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  }
+}
+
+/**
+ * Reads each character of a compressed string as its value in an alphabet.
+ * @returns The values, or null if a character is not in the alphabet.
+ * @private
+ */
+function toValues(input: string, values: Map<string, number>): number[] | null {
+  const result: number[] = [];
+  for (const char of input) {
+    const value = values.get(char);
+    if (value === undefined) return null;
+    result.push(value);
+  }
+  return result;
+}
+
+/**
+ * Compresses a string to standard Base64 characters, padded with `=`.
+ *
+ * @param input The string to compress.
+ * @returns The compressed string.
+ */
+export function compressToBase64(input: string): string {
+  const output = compressToBits(input, BITS_PER_CHAR, (value) => BASE64_ALPHABET.charAt(value));
+  return output.padEnd(output.length + ((4 - (output.length % 4)) % 4), '=');
+}
+
+/**
+ * Decompresses a string written by `compressToBase64`.
+ *
+ * @param input The compressed string.
+ * @returns The original string, or null if the input is not a valid compressed string.
+ */
+export function decompressFromBase64(input: string): string | null {
+  const values = toValues(input.replace(/=+$/, ''), BASE64_VALUES);
+  if (!values?.length) return values && '';
+  return decompressFromBits(values.length, BITS_PER_CHAR, (index) => values[index] ?? 0);
+}
+
+/**
+ * Compresses a string to characters that are safe in URLs without escaping, like LZ-String's
+ * `compressToEncodedURIComponent`. It uses the base64url alphabet (`-` and `_`), so the output
+ * can be placed in a query parameter or fragment as is.
+ *
+ * @param input The string to compress.
+ * @returns The compressed string.
+ */
+export function compressToEncodedURIComponent(input: string): string {
+  return compressToBits(input, BITS_PER_CHAR, (value) => URL_ALPHABET.charAt(value));
+}
+
+/**
+ * Decompresses a string written by `compressToEncodedURIComponent`.
+ *
+ * @param input The compressed string.
+ * @returns The original string, or null if the input is not a valid compressed string.
+ */
+export function decompressFromEncodedURIComponent(input: string): string | null {
+  const values = toValues(input, URL_VALUES);
+  if (!values?.length) return values && '';
+  return decompressFromBits(values.length, BITS_PER_CHAR, (index) => values[index] ?? 0);
+}
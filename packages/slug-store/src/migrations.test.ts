@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { migrateState, upgradePersistedState, SlugStoreMigrationError, type MigrationMap } from './migrations.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+type V0 = { items: string[] };
+type V1 = { items: { name: string }[] };
+type V2 = { items: { name: string; priority: 'low' | 'medium' | 'high' }[] };
+// v3: { items: ...; view: 'grid' | 'list' }
+const migrations: MigrationMap = {
+  1: (state) => ({ items: (state as V0).items.map((name) => ({ name })) }),
+  2: (state): V2 => ({ items: (state as V1).items.map((item) => ({ ...item, priority: 'medium' })) }),
+  3: async (state) => ({ ...(state as V2), view: 'grid' }),
+};
+
+const v0State = { items: ['Starship'] };
+const v3State = { items: [{ name: 'Starship', priority: 'medium' }], view: 'grid' };
+
+describe('Migrations', () => {
+  describe('migrateState', () => {
+    it('should apply every migration between two versions in order', async () => {
+      expect(await migrateState(v0State, 0, 3, migrations)).toEqual(v3State);
+    });
+
+    it('should only apply the migrations after the persisted version', async () => {
+      const v2State = { items: [{ name: 'Starship', priority: 'high' }] };
+      expect(await migrateState(v2State, 2, 3, migrations)).toEqual({ ...v2State, view: 'grid' });
+    });
+
+    it('should leave the state unchanged for versions without a migration', async () => {
+      expect(await migrateState({ count: 1 }, 3, 5, migrations)).toEqual({ count: 1 });
+    });
+
+    it('should reject states from a newer version', async () => {
+      await expect(migrateState(v3State, 4, 3, migrations)).rejects.toBeInstanceOf(SlugStoreMigrationError);
+    });
+
+    it('should wrap errors thrown by a migration', async () => {
+      const failing: MigrationMap = { 1: () => { throw new Error('bad shape'); } };
+      await expect(migrateState({}, 0, 1, failing)).rejects.toThrow('Migration to version 1 failed: bad shape');
+    });
+  });
+
+  describe('upgradePersistedState', () => {
+    it('should treat payloads without an envelope as version 0', async () => {
+      expect(await upgradePersistedState(v0State, 3, migrations)).toEqual(v3State);
+    });
+
+    it('should only unwrap the envelope when no version is configured', async () => {
+      expect(await upgradePersistedState({ $v: 1, $s: v0State })).toEqual(v0State);
+    });
+  });
+
+  describe('URLPersistence', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should upgrade unversioned URLs through multiple steps', async () => {
+      const legacy = new URLPersistence({ enabled: true, paramName: 'wishlist', compress: false });
+      const { url } = await legacy.encodeState(v0State, 'http://localhost:3000/');
+
+      const current = new URLPersistence({ enabled: true, paramName: 'wishlist', compress: false, version: 3, migrations });
+      expect(await current.decodeState(url)).toEqual({ success: true, state: v3State });
+    });
+
+    it('should upgrade URLs written with an older version', async () => {
+      const v1 = new URLPersistence({ enabled: true, paramName: 'wishlist', compress: false, version: 1 });
+      const { url } = await v1.encodeState({ items: [{ name: 'Starship' }] }, 'http://localhost:3000/');
+
+      const current = new URLPersistence({ enabled: true, paramName: 'wishlist', compress: false, version: 3, migrations });
+      expect(await current.decodeState(url)).toEqual({ success: true, state: v3State });
+    });
+
+    it('should fail to decode URLs written with a newer version', async () => {
+      const v4 = new URLPersistence({ enabled: true, paramName: 'wishlist', compress: false, version: 4 });
+      const { url } = await v4.encodeState(v3State, 'http://localhost:3000/');
+
+      const current = new URLPersistence({ enabled: true, paramName: 'wishlist', compress: false, version: 3, migrations });
+      const result = await current.decodeState(url);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('newer than the supported version 3');
+    });
+  });
+
+  describe('OfflinePersistence', () => {
+    const storage = new Map<string, string>();
+
+    beforeEach(() => {
+      storage.clear();
+      vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage.set(key, value); });
+    });
+
+    afterEach(() => {
+      vi.mocked(localStorage.getItem).mockReset();
+      vi.mocked(localStorage.setItem).mockReset();
+    });
+
+    it('should upgrade entries written before versioning was enabled', async () => {
+      const legacy = new OfflinePersistence({ enabled: true, storage: 'localstorage' });
+      await legacy.saveState('wishlist', v0State);
+
+      const current = new OfflinePersistence({ enabled: true, storage: 'localstorage', version: 3, migrations });
+      expect(await current.loadState('wishlist')).toMatchObject({ success: true, data: v3State });
+    });
+
+    it('should upgrade entries written with an older version', async () => {
+      const v2State = { items: [{ name: 'Starship', priority: 'low' }] };
+      const v2 = new OfflinePersistence({ enabled: true, storage: 'localstorage', version: 2 });
+      await v2.saveState('wishlist', v2State);
+
+      const current = new OfflinePersistence({ enabled: true, storage: 'localstorage', version: 3, migrations });
+      expect(await current.loadState('wishlist')).toMatchObject({ success: true, data: { ...v2State, view: 'grid' } });
+    });
+
+    it('should round-trip entries written with the current version', async () => {
+      const current = new OfflinePersistence({ enabled: true, storage: 'localstorage', version: 3, migrations });
+      await current.saveState('wishlist', v3State);
+      expect(await current.loadState('wishlist')).toMatchObject({ success: true, data: v3State });
+    });
+  });
+});
@@ -0,0 +1,137 @@
+// Migrations Module
+/**
+ * Upgrades a state from the previous version to the next one.
+ * May return the new state directly or a promise resolving to it. The state comes from the
+ * URL or offline storage, so it is `unknown` and should be checked or cast to the older shape.
+ */
+export type Migration = (state: unknown) => unknown;
+
+/**
+ * A map of migrations keyed by the version they upgrade *to*.
+ * `migrations[2]` receives a version 1 state and returns a version 2 state.
+ * Payloads written without a version are treated as version 0.
+ */
+export type MigrationMap = Record<number, Migration>;
+
+/**
+ * A persisted state wrapped together with the version of its shape.
+ */
+export interface VersionedState<T = unknown> {
+  $v: number;
+  $s: T;
+}
+
+/**
+ * Raised when a persisted state cannot be upgraded to the current version.
+ */
+export class SlugStoreMigrationError extends Error {
+  readonly name = 'SlugStoreMigrationError';
+
+  constructor(
+    message: string,
+    /** The version of the persisted state. */
+    readonly fromVersion: number,
+    /** The version the state was being upgraded to. */
+    readonly toVersion: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Wraps a state in a version envelope. States are left untouched when no version is configured,
+ * so existing payloads keep their format.
+ *
+ * @param state The state to wrap.
+ * @param version The current version of the state's shape.
+ * @returns The envelope, or the original state if `version` is undefined.
+ */
+export function wrapVersionedState<T>(state: T, version?: number): VersionedState<T> | T {
+  return version === undefined ? state : { $v: version, $s: state };
+}
+
+/**
+ * Checks whether a decoded value is a version envelope produced by `wrapVersionedState`.
+ */
+export function isVersionedState(value: unknown): value is VersionedState {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 2 && typeof (value as VersionedState).$v === 'number' && '$s' in value;
+}
+
+/**
+ * Splits a decoded value into its state and version.
+ * Values without an envelope are reported as version 0.
+ */
+export function unwrapVersionedState(value: unknown): { state: unknown; version: number } {
+  if (isVersionedState(value)) {
+    return { state: value.$s, version: value.$v };
+  }
+  return { state: value, version: 0 };
+}
+
+/**
+ * Upgrades a persisted state step by step, from `fromVersion` to `toVersion`.
+ * Each missing step leaves the state unchanged, so a version can be bumped
+ * without providing a migration when the shape is compatible.
+ *
+ * @template T The type of the state at the current version.
+ * @param state The persisted state.
+ * @param fromVersion The version the state was persisted with.
+ * @param toVersion The current version.
+ * @param migrations The available migrations.
+ * @returns A promise resolving to the upgraded state.
+ * @throws {SlugStoreMigrationError} If the state is newer than `toVersion` or a migration throws.
+ */
+export async function migrateState<T>(
+  state: unknown,
+  fromVersion: number,
+  toVersion: number,
+  migrations: MigrationMap = {}
+): Promise<T> {
+  if (fromVersion > toVersion) {
+    throw new SlugStoreMigrationError(
+      `Persisted state version ${fromVersion} is newer than the supported version ${toVersion}`,
+      fromVersion,
+      toVersion
+    );
+  }
+
+  let current = state;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const migration = migrations[version];
+    if (!migration) continue;
+
+    try {
+      current = await migration(current);
+    } catch (error) {
+      throw new SlugStoreMigrationError(
+        `Migration to version ${version} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        fromVersion,
+        toVersion
+      );
+    }
+  }
+
+  return current as T;
+}
+
+/**
+ * Unwraps a decoded payload and upgrades it to the current version.
+ * When no current version is configured, the payload is only unwrapped.
+ *
+ * @template T The type of the state at the current version.
+ * @param value The decoded payload, with or without a version envelope.
+ * @param currentVersion The current version of the state's shape.
+ * @param migrations The available migrations.
+ * @returns A promise resolving to the state at the current version.
+ */
+export async function upgradePersistedState<T>(
+  value: unknown,
+  currentVersion?: number,
+  migrations?: MigrationMap
+): Promise<T> {
+  const { state, version } = unwrapVersionedState(value);
+  if (currentVersion === undefined) return state as T;
+  return migrateState<T>(state, version, currentVersion, migrations);
+}
@@ -0,0 +1,201 @@
+// MessagePack Module
+import { ByteReader, ByteWriter, encodeUtf8, isWritableInteger, setDecodedProperty, toJSONValue } from './binary.js';
+
+/**
+ * A MessagePack encoder and decoder for JSON-compatible values. Values are stored as
+ * `JSON.stringify` would store them: dates become strings, and undefined and functions
+ * are left out. Byte arrays are written as MessagePack `bin`. Extension types are not used.
+ *
+ * See https://github.com/msgpack/msgpack/blob/master/spec.md
+ */
+
+/**
+ * Encodes a value as MessagePack.
+ *
+ * @param value The value to encode.
+ * @returns The encoded bytes.
+ * @throws {TypeError} If the value contains a BigInt.
+ */
+export function encodeMessagePack(value: unknown): Uint8Array {
+  const writer = new ByteWriter();
+  writeValue(writer, toJSONValue(value, '') ?? null);
+  return writer.finish();
+}
+
+/**
+ * Decodes MessagePack written by `encodeMessagePack`, or by any other encoder that does not
+ * use extension types.
+ *
+ * @param bytes The encoded bytes.
+ * @returns The decoded value.
+ * @throws If the bytes are not valid MessagePack, or use extension types.
+ */
+export function decodeMessagePack(bytes: Uint8Array): unknown {
+  const reader = new ByteReader(bytes);
+  const value = readValue(reader);
+  if (!reader.done) {
+    throw new Error('Unexpected data after the MessagePack value');
+  }
+  return value;
+}
+
+// --- Encoding ---
+
+/** Writes a value that has already been converted by `toJSONValue`. */
+function writeValue(writer: ByteWriter, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.uint8(0xc0);
+  } else if (typeof value === 'boolean') {
+    writer.uint8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    if (isWritableInteger(value)) {
+      writeInteger(writer, value);
+    } else if (Math.fround(value) === value) {
+      writer.uint8(0xca);
+      writer.float32(value);
+    } else {
+      writer.uint8(0xcb);
+      writer.float64(value);
+    }
+  } else if (typeof value === 'string') {
+    const bytes = encodeUtf8(value);
+    writeLength(writer, bytes.length, 0xa0, 32, 0xd9, 0xda, 0xdb);
+    writer.bytes(bytes);
+  } else if (value instanceof Uint8Array) {
+    writeLength(writer, value.length, 0, 0, 0xc4, 0xc5, 0xc6);
+    writer.bytes(value);
+  } else if (Array.isArray(value)) {
+    writeLength(writer, value.length, 0x90, 16, null, 0xdc, 0xdd);
+    value.forEach((item, index) => writeValue(writer, toJSONValue(item, String(index)) ?? null));
+  } else {
+    const entries: Array<[string, unknown]> = [];
+    for (const [key, item] of Object.entries(value)) {
+      const converted = toJSONValue(item, key);
+      if (converted !== undefined) entries.push([key, converted]);
+    }
+    writeLength(writer, entries.length, 0x80, 16, null, 0xde, 0xdf);
+    for (const [key, item] of entries) {
+      writeValue(writer, key);
+      writeValue(writer, item);
+    }
+  }
+}
+
+/** Writes an integer in the smallest format that holds it. */
+function writeInteger(writer: ByteWriter, value: number): void {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.uint8(value);
+    } else if (value <= 0xff) {
+      writer.uint8(0xcc);
+      writer.uint8(value);
+    } else if (value <= 0xffff) {
+      writer.uint8(0xcd);
+      writer.uint16(value);
+    } else if (value <= 0xffffffff) {
+      writer.uint8(0xce);
+      writer.uint32(value);
+    } else {
+      writer.uint8(0xcf);
+      writer.int64(value);
+    }
+  } else if (value >= -32) {
+    writer.int8(value);
+  } else if (value >= -0x80) {
+    writer.uint8(0xd0);
+    writer.int8(value);
+  } else if (value >= -0x8000) {
+    writer.uint8(0xd1);
+    writer.int16(value);
+  } else if (value >= -0x80000000) {
+    writer.uint8(0xd2);
+    writer.int32(value);
+  } else {
+    writer.uint8(0xd3);
+    writer.int64(value);
+  }
+}
+
+/**
+ * Writes the type and length of a string, binary, array or map: in the fixed format when
+ * the length is below `fixedLimit`, otherwise with an 8, 16 or 32-bit length.
+ */
+function writeLength(
+  writer: ByteWriter,
+  length: number,
+  fixedType: number,
+  fixedLimit: number,
+  type8: number | null,
+  type16: number,
+  type32: number
+): void {
+  if (length < fixedLimit) {
+    writer.uint8(fixedType | length);
+  } else if (type8 !== null && length <= 0xff) {
+    writer.uint8(type8);
+    writer.uint8(length);
+  } else if (length <= 0xffff) {
+    writer.uint8(type16);
+    writer.uint16(length);
+  } else {
+    writer.uint8(type32);
+    writer.uint32(length);
+  }
+}
+
+// --- Decoding ---
+
+function readValue(reader: ByteReader): unknown {
+  const type = reader.uint8();
+
+  if (type < 0x80) return type;
+  if (type >= 0xe0) return type - 0x100;
+  if (type < 0x90) return readMap(reader, type & 0x0f);
+  if (type < 0xa0) return readArray(reader, type & 0x0f);
+  if (type < 0xc0) return reader.text(type & 0x1f);
+
+  switch (type) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.bytes(reader.uint8());
+    case 0xc5: return reader.bytes(reader.uint16());
+    case 0xc6: return reader.bytes(reader.uint32());
+    case 0xca: return reader.float32();
+    case 0xcb: return reader.float64();
+    case 0xcc: return reader.uint8();
+    case 0xcd: return reader.uint16();
+    case 0xce: return reader.uint32();
+    case 0xcf: return reader.uint64();
+    case 0xd0: return reader.int8();
+    case 0xd1: return reader.int16();
+    case 0xd2: return reader.int32();
+    case 0xd3: return reader.int64();
+    case 0xd9: return reader.text(reader.uint8());
+    case 0xda: return reader.text(reader.uint16());
+    case 0xdb: return reader.text(reader.uint32());
+    case 0xdc: return readArray(reader, reader.uint16());
+    case 0xdd: return readArray(reader, reader.uint32());
+    case 0xde: return readMap(reader, reader.uint16());
+    case 0xdf: return readMap(reader, reader.uint32());
+    default:
+      throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`);
+  }
+}
+
+function readArray(reader: ByteReader, length: number): unknown[] {
+  const result: unknown[] = [];
+  for (let i = 0; i < length; i++) {
+    result.push(readValue(reader));
+  }
+  return result;
+}
+
+function readMap(reader: ByteReader, size: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (let i = 0; i < size; i++) {
+    const key = readValue(reader);
+    setDecodedProperty(result, key, readValue(reader));
+  }
+  return result;
+}
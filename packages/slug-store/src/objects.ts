@@ -0,0 +1,9 @@
+// Object Helpers Module
+/**
+ * Whether a value is a plain object, as opposed to an array, a class instance or a primitive.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { OfflinePersistence } from './persistence/offline.js';
+
+describe('OfflinePersistence with IndexedDB', () => {
+  beforeEach(() => {
+    // The IndexedDB mock in test-setup never opens; this one stores entries like a browser.
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should load the states it saved', async () => {
+    const persistence = new OfflinePersistence({ enabled: true, storage: 'indexeddb' });
+
+    expect(await persistence.saveState('cart', { items: ['Starship'] }, 1000)).toEqual({ success: true, updatedAt: 1000 });
+    expect(await persistence.loadState('cart')).toEqual({ success: true, data: { items: ['Starship'] }, updatedAt: 1000 });
+    expect(await persistence.loadState('missing')).toEqual({ success: true });
+  });
+
+  it('should list and delete stored states', async () => {
+    const persistence = new OfflinePersistence({ enabled: true, storage: 'indexeddb' });
+    await persistence.saveState('cart', []);
+    await persistence.saveState('filters', {});
+
+    expect(await persistence.listKeys()).toEqual(['cart', 'filters']);
+    await persistence.deleteState('cart');
+    expect(await persistence.loadState('cart')).toEqual({ success: true });
+    expect(await persistence.listKeys()).toEqual(['filters']);
+  });
+
+  it('should upgrade states saved with an older version', async () => {
+    await new OfflinePersistence({ enabled: true, storage: 'indexeddb', version: 1 }).saveState('cart', { items: ['Starship'] });
+
+    const persistence = new OfflinePersistence({
+      enabled: true,
+      storage: 'indexeddb',
+      version: 2,
+      migrations: { 2: (state) => ({ items: (state as { items: string[] }).items.map((name) => ({ name })) }) },
+    });
+
+    expect(await persistence.loadState('cart')).toMatchObject({ success: true, data: { items: [{ name: 'Starship' }] } });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CompressionStream } from 'node:stream/web';
+import { fitUrlBudget } from './overflow.js';
+import type { ShortLinkStore } from './short-links.js';
+import { URLPersistence, type URLPersistenceOptions } from './persistence/url.js';
+
+const urlOptions: URLPersistenceOptions = { enabled: true, paramName: 'board', compress: false };
+const state = { view: 'grid', notes: 'a note worth keeping '.repeat(20), history: ['x'.repeat(300)] };
+
+const encode = async (value: unknown, options = urlOptions) =>
+  (await new URLPersistence(options).encodeState(value)).url!;
+
+describe('fitUrlBudget', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    window.history.replaceState({}, '', 'http://localhost:3000/');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should drop optional fields in order until the URL fits', async () => {
+    const url = await encode(state);
+    const withoutHistory = await encode({ view: 'grid', notes: state.notes });
+
+    const result = await fitUrlBudget(state, url, urlOptions, {
+      maxUrlLength: withoutHistory.length,
+      overflow: ['drop-optional'],
+      optionalUrlFields: ['history', 'notes'],
+    });
+
+    expect(result).toEqual({ url: withoutHistory, strategy: 'drop-optional', droppedFields: ['history'] });
+  });
+
+  it('should switch to the strongest compression', async () => {
+    vi.stubGlobal('CompressionStream', CompressionStream);
+    const url = await encode(state);
+
+    const result = await fitUrlBudget(state, url, urlOptions, { maxUrlLength: 400, overflow: ['compress'] });
+
+    expect(result.strategy).toBe('compress');
+    expect(result.url!.length).toBeLessThanOrEqual(400);
+    expect(new URL(result.url!).searchParams.get('board')).toMatch(/^v1\.j\.d\./);
+  });
+
+  it('should leave the state out of the URL when falling back to offline storage', async () => {
+    const url = await encode(state);
+    const result = await fitUrlBudget(state, url, urlOptions, {
+      maxUrlLength: 100,
+      overflow: ['compress', 'offline-only'],
+    });
+    expect(result).toEqual({ url: null, strategy: 'offline-only', droppedFields: [] });
+  });
+
+  it('should store the payload in the short-link store and refer to it', async () => {
+    const shortLinkStore: ShortLinkStore = { save: vi.fn().mockResolvedValue('k3Yx9'), load: vi.fn() };
+    const url = await encode(state);
+
+    const result = await fitUrlBudget(state, url, urlOptions, {
+      maxUrlLength: 100,
+      overflow: ['short-link'],
+      shortLinkStore,
+    });
+
+    expect(shortLinkStore.save).toHaveBeenCalledWith(new URL(url).searchParams.get('board'));
+    expect(result).toEqual({ url: 'http://localhost:3000/?board=%40k3Yx9', strategy: 'short-link', droppedFields: [] });
+  });
+
+  it('should report a failed short-link save and try the next strategy', async () => {
+    const shortLinkStore: ShortLinkStore = { save: vi.fn().mockRejectedValue(new Error('offline')), load: vi.fn() };
+    const url = await encode(state);
+
+    const result = await fitUrlBudget(state, url, urlOptions, {
+      maxUrlLength: 100,
+      overflow: ['short-link', 'offline-only'],
+      shortLinkStore,
+    });
+
+    expect(result).toEqual({ url: null, strategy: 'offline-only', droppedFields: [], error: new Error('offline') });
+  });
+
+  it('should keep the best attempt when no strategy fits', async () => {
+    const url = await encode(state);
+    const result = await fitUrlBudget(state, url, urlOptions, {
+      maxUrlLength: 10,
+      overflow: ['drop-optional', 'short-link'],
+      optionalUrlFields: ['history'],
+    });
+
+    expect(result.strategy).toBeNull();
+    expect(result.droppedFields).toEqual(['history']);
+    expect(result.url).toBe(await encode({ view: 'grid', notes: state.notes }));
+  });
+});
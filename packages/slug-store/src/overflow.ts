@@ -0,0 +1,145 @@
+// URL Overflow Module
+import { URLPersistence, type URLPersistenceOptions } from './persistence/url.js';
+import { omitPaths } from './projection.js';
+import type { ShortLinkStore } from './short-links.js';
+
+/**
+ * What to do when the encoded URL is longer than `maxUrlLength`.
+ * - 'drop-optional' leaves `optionalUrlFields` out of the URL, one at a time, until it fits.
+ * - 'compress' re-encodes the state with the strongest available compression.
+ * - 'offline-only' leaves the state out of the URL and writes it to offline storage only.
+ * - 'short-link' stores the payload in `shortLinkStore` and writes a `@<id>` reference instead.
+ */
+export type UrlOverflowStrategy = 'drop-optional' | 'compress' | 'offline-only' | 'short-link';
+
+/**
+ * Options deciding how a URL that is too long is shortened.
+ */
+export interface UrlBudgetOptions {
+  /** The maximum length of the whole URL, in characters. */
+  maxUrlLength: number;
+  /** The strategies to try, in order, until the URL fits. */
+  overflow: UrlOverflowStrategy[];
+  /** Dot-separated key paths the 'drop-optional' strategy may leave out, least important first. */
+  optionalUrlFields?: string[];
+  /** Where the 'short-link' strategy stores payloads. */
+  shortLinkStore?: ShortLinkStore;
+}
+
+/**
+ * The outcome of fitting a state into the URL budget.
+ */
+export interface UrlBudgetResult {
+  /** The URL to write, or null to leave the state out of the URL. */
+  url: string | null;
+  /** The strategy that made the URL fit, or null if none did and the URL is still too long. */
+  strategy: UrlOverflowStrategy | null;
+  /** The optional fields left out of the URL. */
+  droppedFields: string[];
+  /** Why a strategy failed, e.g. the short-link store could not save the payload. The next one was tried. */
+  error?: Error;
+}
+
+/**
+ * Passed to `onOverflow` when an encoded URL is longer than `maxUrlLength`.
+ */
+export interface UrlOverflowEvent extends UrlBudgetResult {
+  /** The slug-store key. */
+  key: string;
+  /** The length of the URL before any strategy was applied. */
+  length: number;
+  /** The configured `maxUrlLength`. */
+  maxUrlLength: number;
+}
+
+/**
+ * The compression algorithms the 'compress' strategy tries; the shortest result wins.
+ * Brotli is left out, since most browsers could not open the link.
+ */
+const STRONG_COMPRESSION = ['deflate-raw', 'gzip'] as const;
+
+/**
+ * Applies the overflow strategies, in order, to a URL longer than `maxUrlLength`.
+ * Strategies build on each other: fields dropped by 'drop-optional' stay dropped when
+ * 'compress' or 'short-link' run next. A strategy that fails, such as a short-link store that
+ * cannot be reached, is reported in the result and the next one is tried.
+ *
+ * @param state The state written to the URL.
+ * @param url The encoded URL that is too long.
+ * @param urlOptions The options the URL was encoded with.
+ * @param budget The length limit and the strategies to try.
+ * @returns The URL to write, and the strategy that made it fit.
+ */
+export async function fitUrlBudget(
+  state: unknown,
+  url: string,
+  urlOptions: URLPersistenceOptions,
+  budget: UrlBudgetOptions
+): Promise<UrlBudgetResult> {
+  const { maxUrlLength, optionalUrlFields = [], shortLinkStore } = budget;
+  const fits = (candidate: string) => candidate.length <= maxUrlLength;
+
+  let currentState = state;
+  let currentUrl = url;
+  let currentOptions = urlOptions;
+  const droppedFields: string[] = [];
+  let error: Error | undefined;
+
+  /** Encodes the state with other options, returning the URL or null if encoding fails. */
+  const encode = async (value: unknown, options: URLPersistenceOptions) => {
+    const result = await new URLPersistence(options).encodeState(value);
+    return result.success && result.url ? result.url : null;
+  };
+
+  for (const strategy of budget.overflow) {
+    switch (strategy) {
+      case 'drop-optional':
+        for (const field of optionalUrlFields) {
+          const reducedState = omitPaths(currentState, [field]);
+          if (reducedState === currentState) continue;
+          const reducedUrl = await encode(reducedState, currentOptions);
+          if (!reducedUrl) continue;
+
+          currentState = reducedState;
+          currentUrl = reducedUrl;
+          droppedFields.push(field);
+          if (fits(currentUrl)) return { url: currentUrl, strategy, droppedFields };
+        }
+        break;
+
+      case 'compress':
+        for (const algorithm of STRONG_COMPRESSION) {
+          const options = { ...currentOptions, compress: algorithm };
+          const compressedUrl = await encode(currentState, options);
+          if (compressedUrl && compressedUrl.length < currentUrl.length) {
+            currentUrl = compressedUrl;
+            currentOptions = options;
+          }
+        }
+        if (fits(currentUrl)) return { url: currentUrl, strategy, droppedFields };
+        break;
+
+      case 'offline-only':
+        return { url: null, strategy, droppedFields, ...(error && { error }) };
+
+      case 'short-link': {
+        const payload = shortLinkStore && new URLPersistence(currentOptions).readPayload(currentUrl);
+        if (!shortLinkStore || !payload) break;
+        let id: string;
+        try {
+          id = await shortLinkStore.save(payload);
+        } catch (saveError) {
+          error = saveError instanceof Error ? saveError : new Error(String(saveError));
+          break;
+        }
+        const reference = new URLPersistence(currentOptions).encodeReference(id, currentUrl);
+        if (reference.success && reference.url && fits(reference.url)) {
+          return { url: reference.url, strategy, droppedFields, ...(error && { error }) };
+        }
+        break;
+      }
+    }
+  }
+
+  return { url: currentUrl, strategy: null, droppedFields, ...(error && { error }) };
+}
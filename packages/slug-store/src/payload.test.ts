@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CompressionStream as NodeCompressionStream } from 'node:stream/web';
+import { brotliDecompressSync, gunzipSync } from 'node:zlib';
+import { encodePayload, decodePayload, parsePayload, PayloadError } from './payload.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+const state = { view: 'grid', tags: ['sale'] };
+const json = JSON.stringify(state);
+const key = 'AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
+
+// Written once with AES-GCM (a fixed IV), Node's CompressionStream and zlib. They must keep decoding.
+// `base64` payloads were written when lz-string compression was plain Base64.
+const fixtures = {
+  none: 'v1.j.n..{"view":"grid","tags":["sale"]}',
+  noneEncrypted: 'v1.j.n.0.BwcHBwcHBwcHBwcHdEjQNQp49c7k-mHp5HPYudU96gCqzdo7jdoynyaDT7f6k0ZgWLAprA1nB1rf4XE',
+  lzString: 'v1.j.z..N4Igbglgpg7iBcIDmAnCATEAaEAXAhkgM4IDaIR-ANlCALoC-QA',
+  base64: 'v1.j.l..eyJ2aWV3IjoiZ3JpZCIsInRhZ3MiOlsic2FsZSJdfQ',
+  base64Encrypted: 'v1.j.l.0.BwcHBwcHBwcHBwcHahPsbg5YgceP93zp2mK-6_sfxADBmdNxpIgTk0uyQXJEdrcN2xO-9mSvnMC4YjD0hl9I_tS73-waQMK5',
+  gzip: 'v1.j.g..H4sIAAAAAAAAA6tWKstMLVeyUkovykxR0lEqSUwvVrKKVipOzElViq0FAJKoJDEfAAAA',
+  gzipEncrypted: 'v1.j.g.0.BwcHBwcHBwcHBwcHR17VFS5OlrWH3FLBwWeAzOov-T7EoeRgq9AxjH21SkkXKLQP0hWD5FSM6raUfqlpwQ3fH7zQMU3coqqNJ_zGlgTksXMKvILiaYuJQhV0-uqIe3y5',
+  brotli: 'v1.j.b..Cw-AeyJ2aWV3IjoiZ3JpZCIsInRhZ3MiOlsic2FsZSJdfQM',
+  brotliEncrypted: 'v1.j.b.0.BwcHBwcHBwcHBwcHTB2NHQp2ncanykWzyTub8vtvxwPStMhqt9UMkl7tf3JoKIIX4nKy4Vit65mkRpQbYIFSHIjmGi8dr2V5PAz7og',
+};
+
+// The same payloads in standard Base64, as written before payloads switched to base64url.
+const standardBase64Fixtures = {
+  noneEncrypted: 'v1.j.n.0.BwcHBwcHBwcHBwcHdEjQNQp49c7k+mHp5HPYudU96gCqzdo7jdoynyaDT7f6k0ZgWLAprA1nB1rf4XE=',
+  base64: 'v1.j.l..eyJ2aWV3IjoiZ3JpZCIsInRhZ3MiOlsic2FsZSJdfQ==',
+  base64Encrypted: 'v1.j.l.0.BwcHBwcHBwcHBwcHahPsbg5YgceP93zp2mK+6/sfxADBmdNxpIgTk0uyQXJEdrcN2xO+9mSvnMC4YjD0hl9I/tS73+waQMK5',
+  gzipEncrypted: 'v1.j.g.0.BwcHBwcHBwcHBwcHR17VFS5OlrWH3FLBwWeAzOov+T7EoeRgq9AxjH21SkkXKLQP0hWD5FSM6raUfqlpwQ3fH7zQMU3coqqNJ/zGlgTksXMKvILiaYuJQhV0+uqIe3y5',
+  brotli: 'v1.j.b..Cw+AeyJ2aWV3IjoiZ3JpZCIsInRhZ3MiOlsic2FsZSJdfQM=',
+  brotliEncrypted: 'v1.j.b.0.BwcHBwcHBwcHBwcHTB2NHQp2ncanykWzyTub8vtvxwPStMhqt9UMkl7tf3JoKIIX4nKy4Vit65mkRpQbYIFSHIjmGi8dr2V5PAz7og==',
+};
+
+const legacyFixtures = {
+  plain: '{"view":"grid","tags":["sale"]}',
+  compressed: 'c_eyJ2aWV3IjoiZ3JpZCIsInRhZ3MiOlsic2FsZSJdfQ==',
+  encrypted: 'e_BwcHBwcHBwcHBwcHdEjQNQp49c7k+mHp5HPYudU96gCqzdo7jdoynyaDT7f6k0ZgWLAprA1nB1rf4XE=',
+  encryptedCompressed: 'ec_BwcHBwcHBwcHBwcHahPsbg5YgceP93zp2mK+6/sfxADBmdNxpIgTk0uyQXJEdrcN2xO+9mSvnMC4YjD0hl9I/tS73+waQMK5',
+};
+
+// Written with the unmarked XOR fallback of earlier versions, with the key each was encrypted with.
+const legacyXorFixtures = {
+  'text key': ['e_FltbGgAUUF9WShkMHU9VDwcEBAFHTnZJFhgBHA8uGA==', 'my-secret-key'],
+  'AES key': ['e_OmMzKiQAc3xgABEgJ3NDbjAgVzxmQhpwNgkhMGQPJA==', key],
+} satisfies Record<string, [payload: string, key: string]>;
+
+
+/** Decompresses with zlib, which, unlike browsers and Node's DecompressionStream, also reads brotli. */
+class ZlibDecompressionStream {
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+
+  constructor(format: string) {
+    const chunks: Uint8Array[] = [];
+    // Queues the output, so the whole input can be written before anything is read.
+    ({ readable: this.readable, writable: this.writable } = new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk) => { chunks.push(chunk); },
+      flush: (controller) => {
+        const input = Buffer.concat(chunks);
+        controller.enqueue(new Uint8Array(format === 'brotli' ? brotliDecompressSync(input) : gunzipSync(input)));
+      },
+    }, undefined, { highWaterMark: 1 }));
+  }
+}
+
+/** Compresses like a browser: gzip works, brotli is not supported. */
+class BrowserCompressionStream extends NodeCompressionStream {
+  constructor(format: string) {
+    if (format !== 'gzip') throw new TypeError(`Unsupported compression format: '${format}'`);
+    super(format);
+  }
+}
+
+describe('Payload Format', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('CompressionStream', BrowserCompressionStream);
+    vi.stubGlobal('DecompressionStream', ZlibDecompressionStream);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('golden fixtures', () => {
+    it.each(Object.entries(fixtures))('should decode %s payloads', async (_, payload) => {
+      const { text } = await decodePayload(payload, { encryptionKey: key });
+      expect(JSON.parse(text)).toEqual(state);
+    });
+
+    it.each(Object.entries(standardBase64Fixtures))('should decode standard Base64 %s payloads', async (_, payload) => {
+      const { text } = await decodePayload(payload, { encryptionKey: key, strict: true });
+      expect(JSON.parse(text)).toEqual(state);
+    });
+
+    it.each(Object.entries(legacyFixtures))('should decode legacy %s payloads', async (_, payload) => {
+      const { header, text } = await decodePayload(payload, { encryptionKey: key });
+      expect(header.formatVersion).toBe(0);
+      expect(JSON.parse(text)).toEqual(state);
+    });
+
+    it.each(Object.entries(legacyXorFixtures))('should decode legacy XOR payloads with a %s only when allowed', async (_, [payload, xorKey]) => {
+      const { text } = await decodePayload(payload, { encryptionKey: xorKey, allowInsecureFallback: true });
+      expect(JSON.parse(text)).toEqual(state);
+      await expect(decodePayload(payload, { encryptionKey: xorKey })).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('should describe every combination in the header', () => {
+      expect(parsePayload(fixtures.gzipEncrypted).header).toEqual({
+        formatVersion: 1, codec: 'json', compression: 'gzip', encrypted: true, keyId: '0',
+      });
+      expect(parsePayload(fixtures.brotli).header).toEqual({
+        formatVersion: 1, codec: 'json', compression: 'brotli', encrypted: false,
+      });
+      expect(parsePayload(fixtures.base64).header).toEqual({
+        formatVersion: 1, codec: 'json', compression: 'base64', encrypted: false,
+      });
+      expect(parsePayload(legacyFixtures.encryptedCompressed).header).toEqual({
+        formatVersion: 0, codec: 'json', compression: 'auto', encrypted: true,
+      });
+    });
+
+    it('should encode deterministic combinations to the fixtures', async () => {
+      expect(await encodePayload(json)).toBe(fixtures.none);
+      expect(await encodePayload(json, { compression: 'lz-string' })).toBe(fixtures.lzString);
+      expect(await encodePayload(json, { compression: 'gzip' })).toBe(fixtures.gzip);
+    });
+  });
+
+  describe('encodePayload', () => {
+    it('should record the algorithm actually used', async () => {
+      // Browsers cannot compress with brotli, so the payload falls back to gzip, the one they can.
+      expect(await encodePayload(json, { compression: 'brotli' })).toBe(fixtures.gzip);
+    });
+
+    it('should round-trip encrypted payloads with their key id', async () => {
+      const payload = await encodePayload(json, { compression: 'gzip', encryptionKey: key, encryptionKeyId: '2024-06' });
+      expect(payload.startsWith('v1.j.g.2024-06.')).toBe(true);
+
+      const { text } = await decodePayload(payload, { encryptionKey: key, encryptionKeyId: '2024-06' });
+      expect(text).toBe(json);
+    });
+
+    it('should reject key ids that would break the header', async () => {
+      await expect(encodePayload(json, { encryptionKey: key, encryptionKeyId: 'a.b' })).rejects.toThrow('Invalid encryptionKeyId');
+    });
+  });
+
+  describe('decodePayload', () => {
+    it('should reject payloads encrypted with another key id', async () => {
+      await expect(decodePayload(fixtures.noneEncrypted, { encryptionKey: key, encryptionKeyId: 'next' }))
+        .rejects.toMatchObject({ code: 'UNKNOWN_ENCRYPTION_KEY' });
+    });
+
+    it('should require a key for encrypted payloads', async () => {
+      await expect(decodePayload(fixtures.base64Encrypted)).rejects.toMatchObject({ code: 'MISSING_ENCRYPTION_KEY' });
+    });
+
+    it('should reject newer format versions and unknown header codes', async () => {
+      await expect(decodePayload('v2.j.n..{}')).rejects.toMatchObject({ code: 'UNSUPPORTED_FORMAT' });
+      await expect(decodePayload('v1.x.n..{}')).rejects.toBeInstanceOf(PayloadError);
+    });
+  });
+
+  describe('URLPersistence', () => {
+    const withParam = (value: string) => {
+      const url = new URL('http://localhost:3000/');
+      url.searchParams.set('s', value);
+      return url.toString();
+    };
+
+    it.each([...Object.entries(fixtures), ...Object.entries(legacyFixtures)])('should decode %s URLs', async (_, payload) => {
+      const persistence = new URLPersistence({ enabled: true, encryptionKey: key });
+      expect(await persistence.decodeState(withParam(payload))).toEqual({ success: true, state });
+    });
+
+    it('should write a payload header', async () => {
+      const persistence = new URLPersistence({ enabled: true, compress: 'gzip' });
+      const { url } = await persistence.encodeState(state, 'http://localhost:3000/');
+      const payload = new URL(url!).searchParams.get('s')!;
+
+      expect(payload).toBe(fixtures.gzip);
+    });
+
+    it('should write payloads that URLs never escape', async () => {
+      const persistence = new URLPersistence({ enabled: true, compress: true, encrypt: true, encryptionKey: key });
+      const { url } = await persistence.encodeState({ ...state, note: '¿Qué?'.repeat(20) }, 'http://localhost:3000/');
+
+      expect(new URL(url!).search).toMatch(/^\?s=v1\.j\.z\.0\.[A-Za-z0-9_-]+$/);
+      expect((await persistence.decodeState(url)).state).toMatchObject(state);
+    });
+
+    it('should report the error code of unsupported payloads', async () => {
+      const result = await new URLPersistence({ enabled: true }).decodeState(withParam('v9.j.n..{}'));
+      expect(result).toMatchObject({ success: false, code: 'UNSUPPORTED_FORMAT' });
+    });
+  });
+
+  describe('OfflinePersistence', () => {
+    const storage = new Map<string, string>();
+    const storeEntry = (payload: unknown) =>
+      storage.set('slug-store:filters', JSON.stringify({ payload, expires: Date.now() + 60_000, updatedAt: 1 }));
+
+    beforeEach(() => {
+      storage.clear();
+      vi.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => { storage.set(key, value); });
+    });
+
+    afterEach(() => {
+      vi.mocked(localStorage.getItem).mockReset();
+      vi.mocked(localStorage.setItem).mockReset();
+    });
+
+    it.each([
+      ['current', fixtures.none],
+      ['current encrypted', fixtures.noneEncrypted],
+      ['legacy', '{"data":{"view":"grid","tags":["sale"]},"version":"2.0"}'],
+      ['legacy encrypted', 'e_BwcHBwcHBwcHBwcHdEjCPRtu9c69v2Xp5SbWoYM7/xrs1a07ito5iSbkaTlUJZ0box2JviCIxI+xfrZImXKRe/uRI3bx8HnPbwur7jJ9pNFxfyQr'],
+    ])('should load %s entries', async (_, payload) => {
+      storeEntry(payload);
+      const persistence = new OfflinePersistence({ enabled: true, storage: 'localstorage', encryptionKey: key });
+      expect(await persistence.loadState('filters')).toEqual({ success: true, data: state, updatedAt: 1 });
+    });
+
+    it('should write entries with a payload header', async () => {
+      const persistence = new OfflinePersistence({ enabled: true, storage: 'localstorage', encrypt: true, encryptionKey: key });
+      await persistence.saveState('filters', state);
+
+      expect(JSON.parse(storage.get('slug-store:filters')!).payload).toMatch(/^v1\.j\.n\.0\./);
+      expect(await persistence.loadState('filters')).toMatchObject({ success: true, data: state });
+    });
+
+    it('should keep entries written with another key', async () => {
+      storeEntry(fixtures.noneEncrypted);
+      const persistence = new OfflinePersistence({ enabled: true, storage: 'localstorage', encryptionKey: key, encryptionKeyId: 'next' });
+
+      expect(await persistence.loadState('filters')).toMatchObject({ success: false });
+      expect(localStorage.removeItem).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,315 @@
+// Payload Format Module
+import {
+  compressBytes,
+  compressWithAlgorithm,
+  decompress,
+  decompressBytes,
+  decompressLegacyLZString,
+  type CompressionAlgorithm,
+} from './compression.js';
+import { encrypt, decrypt } from './encryption.js';
+import { BASE64_PATTERN, encodeBase64Url, decodeBase64 } from './base64.js';
+import type { SerializerName } from './serializers.js';
+
+/**
+ * Persisted payloads start with a short header describing how the body was written:
+ *
+ *   v1.<codec>.<compression>.<keyId>.<body>
+ *
+ * - `v1` is the payload format version.
+ * - `codec` is how the state was serialized: `j` (JSON), `m` (MessagePack) or `c` (CBOR).
+ *   Binary codecs write bytes, which are compressed as they are or written as base64url.
+ * - `compression` is the algorithm actually used: `n` (none), `z` (lz-string), `g` (gzip),
+ *   `d` (deflate-raw) or `b` (brotli).
+ *   `l` marks the plain Base64 that earlier versions wrote as lz-string; it is read but no longer written.
+ * - `keyId` identifies the encryption key, and is empty for unencrypted payloads.
+ *
+ * For example `v1.j.z..N4Igbglgpg7iBcIDmAnCATEBfIA` is an unencrypted, lz-string compressed JSON payload.
+ * Payloads written before the header existed use a `c_`, `e_` or `ec_` prefix, or none at all,
+ * and are still decoded as format version 0.
+ */
+
+/** The payload format version written by `encodePayload`. */
+export const PAYLOAD_FORMAT_VERSION = 1;
+
+/** The key id recorded in encrypted payloads when no `encryptionKeyId` is configured. */
+export const DEFAULT_KEY_ID = '0';
+
+/**
+ * How the state was serialized.
+ */
+export type PayloadCodec = SerializerName;
+
+/**
+ * The compression recorded in a payload header. 'base64' is the plain Base64 that earlier
+ * versions wrote as lz-string.
+ */
+export type PayloadCompression = Exclude<CompressionAlgorithm, 'auto'> | 'none' | 'base64';
+
+/**
+ * Why a payload could not be decoded.
+ */
+export type PayloadErrorCode =
+  | 'MISSING_ENCRYPTION_KEY'
+  | 'UNKNOWN_ENCRYPTION_KEY'
+  | 'UNENCRYPTED_PAYLOAD'
+  | 'DECRYPTION_FAILED'
+  | 'DECOMPRESSION_FAILED'
+  | 'UNSUPPORTED_FORMAT';
+
+/**
+ * The decoded header of a payload.
+ */
+export interface PayloadHeader {
+  /** The payload format version. Legacy payloads without a header are version 0. */
+  formatVersion: number;
+  /** How the state was serialized to text. */
+  codec: PayloadCodec;
+  /**
+   * The compression of the body. Legacy compressed payloads do not record their algorithm,
+   * so it is reported as 'auto' and detected on decode.
+   */
+  compression: PayloadCompression | 'auto';
+  /** Whether the body is encrypted. */
+  encrypted: boolean;
+  /** The id of the key the body was encrypted with. Absent for unencrypted and legacy payloads. */
+  keyId?: string;
+}
+
+/**
+ * Options for `encodePayload`.
+ */
+export interface PayloadEncodeOptions {
+  /** How the state was serialized. Must match the type of the serialized state. @default 'json' */
+  codec?: PayloadCodec;
+  /** The compression algorithm to use, or false to store the state as is. @default false */
+  compression?: CompressionAlgorithm | false;
+  /** Encrypts the body with this key when set. */
+  encryptionKey?: string;
+  /** The id recorded for `encryptionKey`. Letters, digits, `_` and `-` only. @default '0' */
+  encryptionKeyId?: string;
+  /** Encrypts with insecure XOR when Web Crypto is not available, instead of throwing. @default false */
+  allowInsecureFallback?: boolean;
+}
+
+/**
+ * Options for `decodePayload`.
+ */
+export interface PayloadDecodeOptions {
+  /** The key used to decrypt encrypted payloads. */
+  encryptionKey?: string;
+  /** The id of `encryptionKey`. Payloads encrypted with another key id are rejected. @default '0' */
+  encryptionKeyId?: string;
+  /** Decrypts payloads encrypted with the insecure XOR fallback, instead of rejecting them. @default false */
+  allowInsecureFallback?: boolean;
+  /** Rejects unencrypted payloads, which anyone could have written. @default false */
+  requireEncryption?: boolean;
+  /** Rejects compressed bodies that are not Base64 instead of trying to recover them. @default false */
+  strict?: boolean;
+}
+
+/**
+ * A decoded payload: its header and its decrypted, decompressed serialized state.
+ */
+export interface DecodedPayload {
+  header: PayloadHeader;
+  /** The serialized state, for the 'json' codec. Empty for binary codecs. */
+  text: string;
+  /** The serialized state, for binary codecs. */
+  bytes?: Uint8Array;
+}
+
+/**
+ * Raised when a payload cannot be decoded.
+ */
+export class PayloadError extends Error {
+  readonly name = 'PayloadError';
+
+  constructor(
+    message: string,
+    /** Why the payload could not be decoded. */
+    readonly code: PayloadErrorCode
+  ) {
+    super(message);
+  }
+}
+
+const CODEC_CODES: Record<PayloadCodec, string> = { json: 'j', msgpack: 'm', cbor: 'c' };
+
+const COMPRESSION_CODES: Record<PayloadCompression, string> = {
+  none: 'n',
+  base64: 'l',
+  'lz-string': 'z',
+  gzip: 'g',
+  'deflate-raw': 'd',
+  brotli: 'b',
+};
+
+const HEADER_PATTERN = /^v(\d+)\.([^.]*)\.([^.]*)\.([^.]*)\.([\s\S]*)$/;
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Finds the name recorded for a header code. */
+function fromCode<T extends string>(codes: Record<T, string>, code: string): T | undefined {
+  return (Object.keys(codes) as T[]).find((name) => codes[name] === code);
+}
+
+/**
+ * Whether a value starts with a payload header, as opposed to a legacy or unrelated value.
+ *
+ * @param value The raw payload.
+ */
+export function hasPayloadHeader(value: string): boolean {
+  return /^v\d+\./.test(value);
+}
+
+/**
+ * Splits a payload into its header and body. Legacy payloads are described by their prefix.
+ *
+ * @param payload The raw payload.
+ * @returns The header and the still encrypted or compressed body.
+ * @throws {PayloadError} If the header is malformed or written by a newer format version.
+ */
+export function parsePayload(payload: string): { header: PayloadHeader; body: string } {
+  if (!hasPayloadHeader(payload)) {
+    if (payload.startsWith('ec_')) {
+      return { header: { formatVersion: 0, codec: 'json', compression: 'auto', encrypted: true }, body: payload.substring(3) };
+    }
+    if (payload.startsWith('e_')) {
+      return { header: { formatVersion: 0, codec: 'json', compression: 'none', encrypted: true }, body: payload.substring(2) };
+    }
+    if (payload.startsWith('c_')) {
+      return { header: { formatVersion: 0, codec: 'json', compression: 'auto', encrypted: false }, body: payload.substring(2) };
+    }
+    return { header: { formatVersion: 0, codec: 'json', compression: 'none', encrypted: false }, body: payload };
+  }
+
+  const match = HEADER_PATTERN.exec(payload);
+  if (!match) {
+    throw new PayloadError('The payload header is malformed', 'UNSUPPORTED_FORMAT');
+  }
+  const [, version, codecCode, compressionCode, keyId, body] = match;
+  const formatVersion = Number(version);
+  if (formatVersion > PAYLOAD_FORMAT_VERSION) {
+    throw new PayloadError(
+      `The payload format version ${formatVersion} is newer than the supported version ${PAYLOAD_FORMAT_VERSION}`,
+      'UNSUPPORTED_FORMAT'
+    );
+  }
+
+  const codec = fromCode(CODEC_CODES, codecCode!);
+  const compression = fromCode(COMPRESSION_CODES, compressionCode!);
+  if (!codec || !compression) {
+    throw new PayloadError(`Unknown payload codec "${codecCode}" or compression "${compressionCode}"`, 'UNSUPPORTED_FORMAT');
+  }
+
+  return {
+    header: { formatVersion, codec, compression, encrypted: keyId !== '', ...(keyId ? { keyId } : {}) },
+    body: body!,
+  };
+}
+
+/**
+ * Compresses and encrypts a serialized state, and prefixes it with a header describing both.
+ *
+ * @param serialized The serialized state: text for the 'json' codec, bytes for binary codecs.
+ * @param options How to compress and encrypt it.
+ * @returns The payload.
+ * @throws If `encryptionKeyId` contains characters other than letters, digits, `_` and `-`,
+ *   or the serialized state does not match the codec.
+ * @throws {EncryptionError} If the body cannot be encrypted.
+ */
+export async function encodePayload(serialized: string | Uint8Array, options: PayloadEncodeOptions = {}): Promise<string> {
+  const { codec = 'json', encryptionKey, encryptionKeyId = DEFAULT_KEY_ID } = options;
+  if ((codec === 'json') !== (typeof serialized === 'string')) {
+    throw new TypeError(`The ${codec} codec cannot encode ${typeof serialized === 'string' ? 'text' : 'bytes'}.`);
+  }
+
+  let body = typeof serialized === 'string' ? serialized : encodeBase64Url(serialized);
+  let compression: PayloadCompression = 'none';
+  let keyId = '';
+
+  if (options.compression) {
+    const result = typeof serialized === 'string'
+      ? await compressWithAlgorithm(serialized, options.compression)
+      : await compressBytes(serialized, options.compression);
+    body = result.data;
+    compression = result.algorithm;
+  }
+
+  if (encryptionKey) {
+    if (!KEY_ID_PATTERN.test(encryptionKeyId)) {
+      throw new Error(`Invalid encryptionKeyId "${encryptionKeyId}": use letters, digits, "_" and "-" only.`);
+    }
+    body = await encrypt(body, encryptionKey, { allowInsecureFallback: options.allowInsecureFallback });
+    keyId = encryptionKeyId;
+  }
+
+  return `v${PAYLOAD_FORMAT_VERSION}.${CODEC_CODES[codec]}.${COMPRESSION_CODES[compression]}.${keyId}.${body}`;
+}
+
+/**
+ * Reads a payload written by `encodePayload`, or a legacy payload: decrypts and decompresses
+ * its body as described by the header.
+ *
+ * @param payload The raw payload.
+ * @param options The encryption key and how strictly to read the body.
+ * @returns The header and the serialized state.
+ * @throws {PayloadError} If the payload cannot be decoded.
+ */
+export async function decodePayload(payload: string, options: PayloadDecodeOptions = {}): Promise<DecodedPayload> {
+  const { header, body } = parsePayload(payload);
+  let text = body;
+
+  if (options.requireEncryption && !header.encrypted) {
+    throw new PayloadError('Data is not encrypted, but encryption is required.', 'UNENCRYPTED_PAYLOAD');
+  }
+
+  if (header.encrypted) {
+    const { encryptionKey, encryptionKeyId = DEFAULT_KEY_ID } = options;
+    if (!encryptionKey) {
+      throw new PayloadError('Data is encrypted, but no encryptionKey was provided.', 'MISSING_ENCRYPTION_KEY');
+    }
+    if (header.keyId !== undefined && header.keyId !== encryptionKeyId) {
+      throw new PayloadError(
+        `Data was encrypted with key "${header.keyId}", but the encryptionKeyId is "${encryptionKeyId}".`,
+        'UNKNOWN_ENCRYPTION_KEY'
+      );
+    }
+    try {
+      text = await decrypt(text, encryptionKey, { allowInsecureFallback: options.allowInsecureFallback });
+    } catch (error) {
+      throw new PayloadError(`Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'DECRYPTION_FAILED');
+    }
+  }
+
+  // Binary codecs write bytes: compressed, or as base64url
+  if (header.codec !== 'json') {
+    if (header.compression === 'auto' || header.compression === 'base64') {
+      throw new PayloadError(`The ${header.codec} codec cannot be combined with ${header.compression} compression`, 'UNSUPPORTED_FORMAT');
+    }
+    if (options.strict && !BASE64_PATTERN.test(text)) {
+      throw new PayloadError('The payload body is not Base64', 'UNSUPPORTED_FORMAT');
+    }
+    try {
+      const bytes = header.compression === 'none' ? decodeBase64(text) : await decompressBytes(text, header.compression);
+      return { header, text: '', bytes };
+    } catch (error) {
+      throw new PayloadError(`Decompression failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'DECOMPRESSION_FAILED');
+    }
+  }
+
+  if (header.compression !== 'none') {
+    // Compressed bodies are always Base64 or base64url; anything else was not written by `encodePayload`.
+    if (options.strict && !BASE64_PATTERN.test(text)) {
+      throw new PayloadError('Decompression failed: the payload is not Base64', 'DECOMPRESSION_FAILED');
+    }
+    try {
+      text = header.compression === 'base64' ? decompressLegacyLZString(text) : await decompress(text, header.compression);
+    } catch (error) {
+      throw new PayloadError(`Decompression failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'DECOMPRESSION_FAILED');
+    }
+  }
+
+  return { header, text };
+}
@@ -1,5 +1,9 @@
 // Offline Persistence Module
-import { encrypt, decrypt } from '../encryption.js';
+import { decrypt } from '../encryption.js';
+import { encodePayload, decodePayload, PayloadError } from '../payload.js';
+import { wrapVersionedState, upgradePersistedState, type MigrationMap } from '../migrations.js';
+import { serialize, deserialize, type SerializerName } from '../serializers.js';
+import type { TypeHandler } from '../tagged-values.js';
 
 /**
  * Configuration options for the OfflinePersistence class.
@@ -19,10 +23,41 @@ export interface OfflinePersistenceOptions {
   encrypt?: boolean;
   /** The key to use for encryption. Required if `encrypt` is true. */
   encryptionKey?: string;
+  /**
+   * An id for `encryptionKey`, recorded in encrypted entries so that entries written with
+   * another key are reported instead of failing to decrypt. Letters, digits, `_` and `-` only.
+   * @default '0'
+   */
+  encryptionKeyId?: string;
+  /**
+   * Uses insecure repeating-key XOR when Web Crypto is not available, instead of failing, and
+   * reads entries written with it. XOR does not keep the state secret.
+   * @default false
+   */
+  allowInsecureFallback?: boolean;
   /** Time-to-live for stored data, in seconds. @default 3600 (1 hour) */
   ttl?: number;
   /** A prefix for all keys stored in storage, to avoid naming collisions. @default 'slug-store' */
   prefix?: string;
+  /**
+   * The version of the state's shape. When set, stored entries record it and
+   * entries with an older version are upgraded with `migrations` on load.
+   */
+  version?: number;
+  /** Migrations keyed by the version they upgrade to. Only used when `version` is set. */
+  migrations?: MigrationMap;
+  /**
+   * How states are written: 'json', or the more compact 'msgpack' or 'cbor'.
+   * Entries record their serializer, so existing entries stay readable when it changes.
+   * @default 'json'
+   */
+  serializer?: SerializerName;
+  /**
+   * Handlers for types that are not built in. Dates, Maps, Sets, BigInts and undefined
+   * survive saving and loading without one.
+   * @default []
+   */
+  types?: TypeHandler[];
 }
 
 /**
@@ -35,6 +70,16 @@ export interface OfflinePersistenceResult {
   data?: any;
   /** An error message if the operation failed. */
   error?: string;
+  /** When the retrieved data was written, in milliseconds since the epoch. Only present for entries that record it. */
+  updatedAt?: number;
+}
+
+/** Resolves with the result of an IndexedDB request once it succeeds. */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
 }
 
 /**
@@ -43,8 +88,9 @@ export interface OfflinePersistenceResult {
  * and can handle encryption and data expiration (TTL).
  */
 export class OfflinePersistence {
-  private options: Required<OfflinePersistenceOptions>;
-  private memoryStorage = new Map<string, { payload: string; expires: number }>();
+  private options: Required<Omit<OfflinePersistenceOptions, 'version' | 'encryptionKeyId' | 'serializer'>> &
+    Pick<OfflinePersistenceOptions, 'version' | 'encryptionKeyId' | 'serializer'>;
+  private memoryStorage = new Map<string, { payload: string; expires: number; updatedAt: number }>();
 
   constructor(options: OfflinePersistenceOptions = {}) {
     this.options = {
@@ -52,8 +98,14 @@ export class OfflinePersistence {
       storage: options.storage ?? 'indexeddb',
       encrypt: options.encrypt ?? false,
       encryptionKey: options.encryptionKey ?? '',
+      encryptionKeyId: options.encryptionKeyId,
+      allowInsecureFallback: options.allowInsecureFallback ?? false,
       ttl: options.ttl ?? 3600, // 1 hour default
-      prefix: options.prefix ?? 'slug-store'
+      prefix: options.prefix ?? 'slug-store',
+      version: options.version,
+      migrations: options.migrations ?? {},
+      serializer: options.serializer,
+      types: options.types ?? []
     };
   }
 
@@ -63,14 +115,17 @@ export class OfflinePersistence {
 
   /**
    * Saves state to the configured offline storage.
-   * The data is wrapped in an object containing the state, expiration timestamp, and version.
+   * The data is stored as a payload with a header recording its format version and encryption,
+   * next to its expiration and update timestamps.
+   * When a state `version` is configured, the state itself is wrapped in a version envelope.
    *
    * @template T The type of the state object.
    * @param key The key to store the state under.
    * @param state The state object to save.
+   * @param updatedAt When the state was changed, used to resolve conflicts between tabs. Defaults to now.
    * @returns A result object indicating success or failure.
    */
-  async saveState<T>(key: string, state: T): Promise<OfflinePersistenceResult> {
+  async saveState<T>(key: string, state: T, updatedAt: number = Date.now()): Promise<OfflinePersistenceResult> {
     if (!this.options.enabled) {
       return { success: true };
     }
@@ -79,24 +134,18 @@ export class OfflinePersistence {
       const fullKey = this.getKey(key);
       const expires = Date.now() + (this.options.ttl * 1000);
       
-      const jsonData = JSON.stringify({
-        data: state,
-        version: '2.0' // New version with prefix support
+      // Offline entries are not compressed, as storage space is less of a concern than URL length.
+      const payload = await encodePayload(serialize(wrapVersionedState(state, this.options.version), this.options.serializer, this.options.types), {
+        codec: this.options.serializer,
+        encryptionKey: this.options.encrypt ? this.options.encryptionKey || undefined : undefined,
+        encryptionKeyId: this.options.encryptionKeyId,
+        allowInsecureFallback: this.options.allowInsecureFallback,
       });
-      
-      let processedData = jsonData;
-      let prefix = '';
-
-      // For offline, we will just use a simple compression flag
-      // and not multiple algorithms, as storage space is less of a concern than URL length.
-      if (this.options.encrypt && this.options.encryptionKey) {
-        processedData = await encrypt(processedData, this.options.encryptionKey);
-        prefix = 'e_';
-      }
 
       const dataToStore = {
-        payload: prefix + processedData,
+        payload,
         expires,
+        updatedAt,
       };
 
       switch (this.options.storage) {
@@ -111,7 +160,7 @@ export class OfflinePersistence {
           break;
       }
 
-      return { success: true };
+      return { success: true, updatedAt };
     } catch (error) {
       return {
         success: false,
@@ -122,7 +171,8 @@ export class OfflinePersistence {
 
   /**
    * Loads state from the configured offline storage.
-   * It will automatically check for data expiration and handle decryption if configured.
+   * It will automatically check for data expiration, handle decryption if configured,
+   * and upgrade entries written with an older state version.
    *
    * @template T The expected type of the state object.
    * @param key The key of the state to load.
@@ -159,40 +209,7 @@ export class OfflinePersistence {
         return { success: true };
       }
       
-      // --- Backwards Compatibility & New Decoding Logic ---
-      let payload = storedData.payload;
-      let data;
-      
-      // Handle old format (pre-4.0.13)
-      if (!payload && storedData.data) {
-          let legacyData = storedData.data;
-          // Handle old encryption format
-          if (this.options.encrypt && this.options.encryptionKey && typeof legacyData === 'string') {
-               const decryptedJson = await decrypt(legacyData, this.options.encryptionKey);
-               legacyData = JSON.parse(decryptedJson).data;
-          }
-          return { success: true, data: legacyData };
-      }
-
-      if (!payload) {
-        return { success: false, error: "Invalid stored data format."};
-      }
-      
-      // New format decoding
-      if (payload.startsWith('e_')) {
-        if (!this.options.encryptionKey) {
-           return { success: false, error: 'Data is encrypted, but no encryptionKey was provided.' };
-        }
-        payload = await decrypt(payload.substring(2), this.options.encryptionKey);
-      }
-      
-      const parsedData = JSON.parse(payload);
-      data = parsedData.data;
-
-      return {
-        success: true,
-        data
-      };
+      return await this.decodeEntry<T>(storedData);
     } catch (error) {
       // If any error occurs, delete the corrupted key to prevent future failures
       await this.deleteState(key).catch(() => {});
@@ -238,14 +255,134 @@ export class OfflinePersistence {
     }
   }
 
+  /**
+   * Lists the keys of every entry stored under this instance's prefix in the configured storage.
+   *
+   * @returns The keys, without the prefix.
+   */
+  async listKeys(): Promise<string[]> {
+    if (!this.options.enabled) {
+      return [];
+    }
+
+    const keyPrefix = this.getKey('');
+    let fullKeys: string[] = [];
+
+    switch (this.options.storage) {
+      case 'indexeddb':
+        if (typeof indexedDB === 'undefined') return [];
+        fullKeys = await this.listIndexedDBKeys();
+        break;
+      case 'localstorage':
+        if (typeof localStorage === 'undefined') return [];
+        for (let i = 0; i < localStorage.length; i++) {
+          const fullKey = localStorage.key(i);
+          if (fullKey !== null) fullKeys.push(fullKey);
+        }
+        break;
+      case 'memory':
+        fullKeys = [...this.memoryStorage.keys()];
+        break;
+    }
+
+    return fullKeys
+      .filter((fullKey) => fullKey.startsWith(keyPrefix))
+      .map((fullKey) => fullKey.substring(keyPrefix.length));
+  }
+
+  /**
+   * Listens for changes to a key made by other tabs.
+   * Only the 'localstorage' backend can be observed, through the browser's `storage` event;
+   * for other backends this is a no-op.
+   *
+   * @template T The expected type of the state object.
+   * @param key The key of the state to watch.
+   * @param listener Called with the decoded entry whenever another tab writes the key.
+   * @returns A function that stops listening.
+   */
+  subscribe<T>(key: string, listener: (result: OfflinePersistenceResult) => void): () => void {
+    if (!this.options.enabled || this.options.storage !== 'localstorage' || typeof window === 'undefined') {
+      return () => {};
+    }
+
+    const fullKey = this.getKey(key);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== fullKey || !event.newValue) return;
+
+      this.decodeEntry<T>(JSON.parse(event.newValue))
+        .then(listener)
+        .catch((error) => listener({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }));
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
   // --- Private Helpers ---
 
+  /**
+   * Decodes a stored entry: handles the legacy format, decryption and state migrations.
+   * @private
+   */
+  private async decodeEntry<T>(storedData: any): Promise<OfflinePersistenceResult> {
+    // --- Backwards Compatibility & New Decoding Logic ---
+    const payload = storedData.payload;
+    let data;
+    
+    // Handle old format (pre-4.0.13)
+    if (!payload && storedData.data) {
+        let legacyData = storedData.data;
+        // Handle old encryption format
+        if (this.options.encrypt && this.options.encryptionKey && typeof legacyData === 'string') {
+             const decryptedJson = await decrypt(legacyData, this.options.encryptionKey, { allowInsecureFallback: this.options.allowInsecureFallback });
+             legacyData = JSON.parse(decryptedJson).data;
+        }
+        return {
+          success: true,
+          data: await upgradePersistedState<T>(legacyData, this.options.version, this.options.migrations)
+        };
+    }
+
+    if (!payload) {
+      return { success: false, error: "Invalid stored data format."};
+    }
+    
+    let decoded;
+    try {
+      decoded = await decodePayload(payload, {
+        encryptionKey: this.options.encryptionKey || undefined,
+        encryptionKeyId: this.options.encryptionKeyId,
+        allowInsecureFallback: this.options.allowInsecureFallback,
+      });
+    } catch (error) {
+      // Entries written with another key are kept; they may be readable with that key.
+      if (error instanceof PayloadError && (error.code === 'MISSING_ENCRYPTION_KEY' || error.code === 'UNKNOWN_ENCRYPTION_KEY')) {
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+    
+    // Entries written before the payload header wrapped the state in `{ data, version: '2.0' }`.
+    const parsedData: any = deserialize(decoded.bytes ?? decoded.text, decoded.header.codec, this.options.types);
+    const persisted = decoded.header.formatVersion === 0 ? parsedData.data : parsedData;
+    data = await upgradePersistedState<T>(persisted, this.options.version, this.options.migrations);
+
+    return {
+      success: true,
+      data,
+      updatedAt: storedData.updatedAt
+    };
+  }
+
   /** Saves data to IndexedDB. */
   private async saveToIndexedDB(key: string, data: any): Promise<void> {
     const db = await this.getIndexedDB();
     const transaction = db.transaction(['slug-store'], 'readwrite');
     const store = transaction.objectStore('slug-store');
-    await store.put(data, key);
+    await requestResult(store.put(data, key));
   }
 
   /** Loads data from IndexedDB. */
@@ -253,7 +390,7 @@ export class OfflinePersistence {
     const db = await this.getIndexedDB();
     const transaction = db.transaction(['slug-store'], 'readonly');
     const store = transaction.objectStore('slug-store');
-    return await store.get(key);
+    return requestResult(store.get(key));
   }
 
   /** Deletes data from IndexedDB. */
@@ -261,7 +398,16 @@ export class OfflinePersistence {
     const db = await this.getIndexedDB();
     const transaction = db.transaction(['slug-store'], 'readwrite');
     const store = transaction.objectStore('slug-store');
-    await store.delete(key);
+    await requestResult(store.delete(key));
+  }
+
+  /** Lists every key stored in IndexedDB. */
+  private async listIndexedDBKeys(): Promise<string[]> {
+    const db = await this.getIndexedDB();
+    const transaction = db.transaction(['slug-store'], 'readonly');
+    const store = transaction.objectStore('slug-store');
+    const keys = await requestResult(store.getAllKeys());
+    return keys.map(String);
   }
 
   /**
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { URLPersistence } from './url.js';
+
+describe('URLPersistence locations', () => {
+  beforeEach(() => {
+    window.history.replaceState({}, '', 'http://localhost:3000/');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('hash', () => {
+    const persistence = new URLPersistence({ enabled: true, paramName: 'board', compress: false, location: 'hash' });
+
+    it('should write the state to the fragment and keep the query untouched', async () => {
+      const { url } = await persistence.encodeState({ id: 1 }, 'http://localhost:3000/share?ref=mail#other=1');
+      const parsed = new URL(url!);
+
+      expect(parsed.search).toBe('?ref=mail');
+      expect(new URLSearchParams(parsed.hash.substring(1)).get('other')).toBe('1');
+      expect(await persistence.decodeState(url)).toEqual({ success: true, state: { id: 1 } });
+    });
+
+    it('should inspect and remove the state in the fragment', async () => {
+      const { url } = await persistence.encodeState({ id: 2 });
+      persistence.updateURL(url!);
+
+      expect((await persistence.debugURLState()).isValidJSON).toBe(true);
+      persistence.removeState();
+      expect(window.location.hash).toBe('');
+    });
+  });
+
+  describe('path', () => {
+    const persistence = new URLPersistence({
+      enabled: true,
+      paramName: 'board',
+      compress: false,
+      location: 'path',
+      pathTemplate: '/teams/:team/board/:state',
+    });
+
+    it('should write the state to the path segment and keep the other segments', async () => {
+      const { url } = await persistence.encodeState({ lanes: ['todo', 'done'] }, 'http://localhost:3000/teams/core/board?tab=1');
+      const parsed = new URL(url!);
+
+      expect(parsed.pathname).toMatch(/^\/teams\/core\/board\/[^/]+$/);
+      expect(parsed.search).toBe('?tab=1');
+      expect(await persistence.decodeState(url)).toEqual({ success: true, state: { lanes: ['todo', 'done'] } });
+    });
+
+    it('should find no state on paths that do not match the template', async () => {
+      expect(await persistence.decodeState('http://localhost:3000/settings')).toEqual({ success: true });
+    });
+
+    it('should drop the state segment on removal', async () => {
+      const { url } = await persistence.encodeState({ lanes: [] }, 'http://localhost:3000/teams/core/board');
+      window.history.replaceState({}, '', url!);
+
+      persistence.removeState();
+      expect(window.location.pathname).toBe('/teams/core/board');
+    });
+
+    it('should fail to encode when the current path lacks a template segment', async () => {
+      const result = await persistence.encodeState({ lanes: [] }, 'http://localhost:3000/');
+      expect(result.success).toBe(false);
+    });
+
+    it('should require a template with a :state segment', () => {
+      expect(() => new URLPersistence({ location: 'path' })).toThrow('pathTemplate');
+      expect(() => new URLPersistence({ location: 'path', pathTemplate: '/board/:id' })).toThrow(':state');
+    });
+  });
+
+  describe('decoding', () => {
+    const withParam = (value: string) => {
+      const url = new URL('http://localhost:3000/');
+      url.searchParams.set('s', value);
+      return url.toString();
+    };
+
+    it('should accept the output of encodeState in strict mode', async () => {
+      const strict = new URLPersistence({ enabled: true, compress: true, decoding: 'strict' });
+      const { url } = await strict.encodeState({ items: ['Starship'] }, 'http://localhost:3000/');
+
+      expect(await strict.decodeState(url)).toEqual({ success: true, state: { items: ['Starship'] } });
+    });
+
+    it('should reject repaired JSON in strict mode but accept it in lenient mode', async () => {
+      const url = withParam("{'view':'grid'}");
+
+      const strict = await new URLPersistence({ enabled: true, decoding: 'strict' }).decodeState(url);
+      expect(strict).toMatchObject({ success: false, code: 'INVALID_JSON' });
+
+      const lenient = await new URLPersistence({ enabled: true }).decodeState(url);
+      expect(lenient).toEqual({ success: true, state: { view: 'grid' } });
+    });
+
+    it('should decode exactly once in strict mode', async () => {
+      const url = withParam(encodeURIComponent('{"view":"grid"}'));
+
+      const strict = await new URLPersistence({ enabled: true, decoding: 'strict' }).decodeState(url);
+      expect(strict).toMatchObject({ success: false, code: 'INVALID_JSON' });
+    });
+
+    it('should reject compressed payloads that are not Base64 in strict mode', async () => {
+      const url = withParam('c_{"view":"grid"}');
+
+      const strict = await new URLPersistence({ enabled: true, decoding: 'strict' }).decodeState(url);
+      expect(strict).toMatchObject({ success: false, code: 'DECOMPRESSION_FAILED' });
+    });
+
+    it('should report a missing encryption key', async () => {
+      const result = await new URLPersistence({ enabled: true }).decodeState(withParam('e_abc'));
+      expect(result).toMatchObject({ success: false, code: 'MISSING_ENCRYPTION_KEY' });
+    });
+  });
+});
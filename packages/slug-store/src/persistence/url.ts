@@ -1,6 +1,13 @@
 // URL Persistence Module
-import { compress, decompress, type CompressionAlgorithm } from '../compression.js';
-import { encrypt, decrypt } from '../encryption.js';
+import type { CompressionAlgorithm } from '../compression.js';
+import { compactState, expandState, isCompactedState, type CompactionSchema } from '../compaction.js';
+import { encodePayload, decodePayload, PayloadError, type DecodedPayload } from '../payload.js';
+import { wrapVersionedState, upgradePersistedState, isVersionedState, type MigrationMap } from '../migrations.js';
+import { createFlatCodec, type URLCodec } from '../codec.js';
+import { createShortLinkClient, parseShortLinkReference, type ShortLinkStore } from '../short-links.js';
+import { serialize, deserialize, type SerializerName } from '../serializers.js';
+import type { TypeHandler } from '../tagged-values.js';
+import { applyStatePatch, createStatePatch, hashBaseline, isStatePatch } from '../diff.js';
 
 /**
  * Configuration options for the URLPersistence class.
@@ -10,18 +17,159 @@ export interface URLPersistenceOptions {
   enabled?: boolean;
   /** 
    * The compression algorithm to use. 
-   * 'auto' selects the best algorithm based on data size and browser support.
+   * 'auto' selects the best algorithm based on data size and runtime support.
+   * Algorithms the runtime cannot use fall back to one it can; the payload records which.
+   * Brotli links only decode where brotli can be decompressed, which excludes most browsers.
    * @default 'auto'
    */
-  compress?: boolean | 'auto' | 'gzip' | 'brotli';
-  /** Enables or disables encryption. @default false */
+  compress?: boolean | 'auto' | 'gzip' | 'deflate-raw' | 'brotli';
+  /**
+   * Enables or disables encryption. When set with `encryptionKey`, unencrypted URL payloads are
+   * rejected with the `UNENCRYPTED_PAYLOAD` error, since anyone can write them.
+   * @default false
+   */
   encrypt?: boolean;
   /** The key to use for encryption. Required if `encrypt` is true. */
   encryptionKey?: string;
+  /**
+   * An id for `encryptionKey`, recorded in encrypted payloads so that payloads written with
+   * another key are reported instead of failing to decrypt. Letters, digits, `_` and `-` only.
+   * @default '0'
+   */
+  encryptionKeyId?: string;
+  /**
+   * Uses insecure repeating-key XOR when Web Crypto is not available, instead of failing, and
+   * reads payloads written with it. XOR does not keep the state secret.
+   * @default false
+   */
+  allowInsecureFallback?: boolean;
   /** The name of the URL query parameter to store the state. @default 's' */
   paramName?: string; 
+  /**
+   * How the state is serialized before compression and encryption. 'msgpack' and 'cbor' are
+   * binary formats without JSON's quotes and braces. Payloads record their serializer, so
+   * any payload decodes whichever serializer is configured.
+   * @default 'json'
+   */
+  serializer?: SerializerName;
+  /**
+   * Handlers for types that are not built in. Dates, Maps, Sets, BigInts and undefined
+   * survive encoding and decoding without one.
+   * @default []
+   */
+  types?: TypeHandler[];
+  /**
+   * 'diff' writes only what differs from `baseline`, together with a hash of the baseline,
+   * so links to states close to the baseline stay short. Only used with the 'json' codec.
+   * @default 'state'
+   */
+  encodeAs?: 'state' | 'diff';
+  /**
+   * The state diffs are taken against, usually the initial state. Required to encode and to
+   * decode 'diff' payloads. Diffs taken against another baseline or `version` are rejected.
+   */
+  baseline?: unknown;
+  /**
+   * Writes the state without its property names, and known strings as numbers, as described
+   * by the schema. Much shorter than generic compression for small states. Payloads record a
+   * hash of the schema; payloads compacted with another schema are rejected.
+   */
+  compaction?: CompactionSchema;
+  /**
+   * The version of the state's shape. When set, encoded payloads record it and
+   * payloads with an older version are upgraded with `migrations` on decode.
+   */
+  version?: number;
+  /** Migrations keyed by the version they upgrade to. Only used when `version` is set. */
+  migrations?: MigrationMap;
+  /**
+   * How the state is written to the URL.
+   * 'json' writes it as one parameter named `paramName`, compressed and encrypted as configured.
+   * 'flat' writes each primitive field as its own readable parameter (`?view=grid&tags=a&tags=b`);
+   * use `createFlatCodec({ template })` to coerce decoded values back to numbers and booleans.
+   * Codecs other than 'json' cannot compress, encrypt or version the state.
+   * @default 'json'
+   */
+  codec?: 'json' | 'flat' | URLCodec;
+  /**
+   * Which part of the URL holds the state.
+   * 'search' uses query parameters. 'hash' uses parameters in the fragment (`#key=...`),
+   * which browsers never send to the server, so the state stays out of server logs.
+   * 'path' writes the state into a path segment described by `pathTemplate`.
+   * @default 'search'
+   */
+  location?: URLLocation;
+  /**
+   * The route of the state when `location` is 'path', with a `:state` placeholder for the
+   * state segment, e.g. `/board/:state`. Other `:name` segments keep their current values.
+   */
+  pathTemplate?: string;
+  /**
+   * How forgiving decoding is.
+   * 'strict' decodes the parameter exactly once and rejects anything `encodeState` could not
+   * have produced. 'lenient' also repairs links mangled by other tools: it decodes repeatedly,
+   * unescapes HTML entities and fixes JSON-like syntax, which can turn a tampered link into
+   * different valid state.
+   * Defaults to 'strict' when `encrypt` is set and 'lenient' otherwise.
+   */
+  decoding?: URLDecodingMode;
+  /**
+   * Where `@<id>` references are resolved. URLs written by the 'short-link' overflow strategy
+   * hold such a reference instead of the payload.
+   * @default createShortLinkClient()
+   */
+  shortLinkStore?: ShortLinkStore;
+}
+
+/**
+ * The part of the URL holding the state.
+ */
+export type URLLocation = 'search' | 'hash' | 'path';
+
+/**
+ * How forgiving `decodeState` is with payloads that `encodeState` did not produce.
+ */
+export type URLDecodingMode = 'strict' | 'lenient';
+
+/**
+ * Why decoding a URL payload failed.
+ */
+export type URLDecodeErrorCode =
+  | 'MISSING_ENCRYPTION_KEY'
+  | 'DECRYPTION_FAILED'
+  | 'DECOMPRESSION_FAILED'
+  | 'EMPTY_PAYLOAD'
+  | 'INVALID_JSON'
+  | 'MIGRATION_FAILED'
+  | 'INVALID_PAYLOAD'
+  | 'UNKNOWN_ENCRYPTION_KEY'
+  | 'UNENCRYPTED_PAYLOAD'
+  | 'UNSUPPORTED_FORMAT'
+  | 'SHORT_LINK_NOT_FOUND'
+  | 'SHORT_LINK_FAILED'
+  | 'BASELINE_MISMATCH'
+  | 'SCHEMA_MISMATCH';
+
+/**
+ * The result of a decoding operation.
+ */
+export interface URLDecodeResult<T> {
+  /** Indicates whether the operation was successful. A URL without state decodes successfully. */
+  success: boolean;
+  /** The decoded state. Only present when the URL holds a state. */
+  state?: T;
+  /** An error message if the operation failed. */
+  error?: string;
+  /** Why the operation failed. Only present on failure. */
+  code?: URLDecodeErrorCode;
 }
 
+/**
+ * How a URL update is recorded in the browser history.
+ * 'push' creates a new entry the user can go Back to; 'replace' overwrites the current one.
+ */
+export type HistoryMode = 'push' | 'replace';
+
 /**
  * The result of an encoding or decoding operation.
  */
@@ -34,6 +182,9 @@ export interface URLPersistenceResult {
   error?: string;
 }
 
+/** Matches the header of a payload, up to its body. The fourth field is the key id. */
+const PAYLOAD_HEADER_PREFIX = /^v\d+\.[^.]*\.[^.]*\.([^.]*)\./;
+
 /**
  * Decodes a URL component that may have been encoded multiple times.
  * This function is aggressive and continues to decode until the string is no longer
@@ -120,6 +271,18 @@ function safeDecodeURIComponent(encoded: string, maxAttempts: number = 10): stri
   return decoded;
 }
 
+/**
+ * Decodes a payload leniently with `safeDecodeURIComponent`. Only the body of a payload with a
+ * header is decoded, so the JSON repairs cannot rewrite the header.
+ *
+ * @param payload The payload, as read from the URL.
+ * @returns The decoded payload.
+ */
+function lenientDecodePayload(payload: string): string {
+  const header = PAYLOAD_HEADER_PREFIX.exec(payload)?.[0] ?? '';
+  return header + safeDecodeURIComponent(payload.substring(header.length));
+}
+
 /**
  * Checks if a given string is a valid, non-null JSON object or array.
  *
@@ -291,12 +454,72 @@ function cleanJSONString(str: string): string {
   return cleaned;
 }
 
+/**
+ * A path template compiled to a regular expression, e.g. `/board/:id/:state`.
+ */
+interface CompiledPathTemplate {
+  segments: string[];
+  /** Matches paths holding a state. */
+  regex: RegExp;
+  /** Matches the same route without the state segment. */
+  emptyRegex: RegExp;
+  names: string[];
+}
+
+/**
+ * Compiles a path template whose `:name` segments match a single path segment each.
+ */
+function compilePathTemplate(template: string): CompiledPathTemplate {
+  const segments = template.replace(/\/+$/, '').split('/');
+  if (!segments.includes(':state')) {
+    throw new Error(`The path template "${template}" has no :state segment.`);
+  }
+
+  const toPattern = (patternSegments: string[]) => new RegExp(`^${patternSegments
+    .map((segment) => segment.startsWith(':')
+      ? '([^/]+)'
+      : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('/')}/?$`);
+
+  return {
+    segments,
+    regex: toPattern(segments),
+    emptyRegex: toPattern(segments.filter((segment) => segment !== ':state')),
+    names: segments.filter((segment) => segment.startsWith(':')).map((segment) => segment.substring(1)),
+  };
+}
+
+/**
+ * Reads the `:name` segments of a pathname, or returns null if it does not match the template.
+ * Paths matching the route without its state segment have no `state` value.
+ */
+function matchPathTemplate(template: CompiledPathTemplate, pathname: string): Record<string, string> | null {
+  const match = template.regex.exec(pathname);
+  if (match) {
+    return Object.fromEntries(template.names.map((name, index) => [name, match[index + 1]!]));
+  }
+
+  const emptyMatch = template.emptyRegex.exec(pathname);
+  if (emptyMatch) {
+    const names = template.names.filter((name) => name !== 'state');
+    return Object.fromEntries(names.map((name, index) => [name, emptyMatch[index + 1]!]));
+  }
+  return null;
+}
+
 /**
  * Manages the persistence of state in the URL's query parameters.
  * It handles serialization, compression, encryption, and robust decoding of state.
  */
 export class URLPersistence {
-  private options: Required<URLPersistenceOptions>;
+  private options: Required<Omit<URLPersistenceOptions, 'version' | 'codec' | 'location' | 'pathTemplate' | 'decoding' | 'encryptionKeyId' | 'shortLinkStore' | 'serializer' | 'baseline' | 'compaction'>> &
+    Pick<URLPersistenceOptions, 'version' | 'decoding' | 'encryptionKeyId' | 'shortLinkStore' | 'serializer' | 'baseline' | 'compaction'>;
+  /** The codec writing readable parameters, or null for the default JSON payload. */
+  private codec: URLCodec | null;
+  /** Which part of the URL holds the state. */
+  private location: URLLocation;
+  /** The compiled `pathTemplate`, when `location` is 'path'. */
+  private pathTemplate: CompiledPathTemplate | null;
 
   constructor(options: URLPersistenceOptions = {}) {
     this.options = {
@@ -304,13 +527,108 @@ export class URLPersistence {
       compress: options.compress ?? 'auto',
       encrypt: options.encrypt ?? false,
       encryptionKey: options.encryptionKey ?? '',
-      paramName: options.paramName ?? 's'
+      encryptionKeyId: options.encryptionKeyId,
+      allowInsecureFallback: options.allowInsecureFallback ?? false,
+      paramName: options.paramName ?? 's',
+      version: options.version,
+      migrations: options.migrations ?? {},
+      decoding: options.decoding,
+      shortLinkStore: options.shortLinkStore,
+      serializer: options.serializer,
+      types: options.types ?? [],
+      encodeAs: options.encodeAs ?? 'state',
+      baseline: options.baseline,
+      compaction: options.compaction,
     };
+    if (this.options.encodeAs === 'diff' && this.options.baseline === undefined) {
+      throw new Error("URLPersistence: `baseline` is required when `encodeAs` is 'diff'.");
+    }
+    this.codec = options.codec === 'flat' ? createFlatCodec() : options.codec === 'json' ? null : options.codec ?? null;
+    this.location = options.location ?? 'search';
+    this.pathTemplate = null;
+    if (this.location === 'path') {
+      if (!options.pathTemplate) {
+        throw new Error("URLPersistence: `pathTemplate` is required when `location` is 'path'.");
+      }
+      if (this.codec) {
+        throw new Error("URLPersistence: the state can only be written to a path segment with the 'json' codec.");
+      }
+      this.pathTemplate = compilePathTemplate(options.pathTemplate);
+    }
+  }
+
+  /**
+   * Reads the parameters holding the state from the configured part of the URL.
+   * For 'path', the state segment is returned as the `paramName` parameter.
+   * @private
+   */
+  private readParams(url: URL): URLSearchParams {
+    switch (this.location) {
+      case 'hash':
+        return new URLSearchParams(url.hash.substring(1));
+      case 'path': {
+        const params = new URLSearchParams();
+        const values = matchPathTemplate(this.pathTemplate!, url.pathname);
+        if (values?.state !== undefined) {
+          params.set(this.options.paramName, decodeURIComponent(values.state));
+        }
+        return params;
+      }
+      default:
+        return url.searchParams;
+    }
+  }
+
+  /**
+   * Writes the parameters read with `readParams` back to the configured part of the URL.
+   * @private
+   */
+  private writeParams(url: URL, params: URLSearchParams): void {
+    switch (this.location) {
+      case 'hash': {
+        const hash = params.toString();
+        url.hash = hash ? `#${hash}` : '';
+        break;
+      }
+      case 'path': {
+        const template = this.pathTemplate!;
+        const values = matchPathTemplate(template, url.pathname) ?? {};
+        const state = params.get(this.options.paramName);
+        url.pathname = template.segments
+          .flatMap((segment) => {
+            if (segment === ':state') return state === null ? [] : [encodeURIComponent(state)];
+            if (!segment.startsWith(':')) return [segment];
+
+            const value = values[segment.substring(1)];
+            if (value === undefined) {
+              throw new Error(`The current path "${url.pathname}" does not provide the ${segment} segment.`);
+            }
+            return [value];
+          })
+          .join('/') || '/';
+        break;
+      }
+      default:
+        // url.searchParams is modified in place.
+        break;
+    }
+  }
+
+  /**
+   * Builds a URL object from the given URL, the current location, or a placeholder outside the browser.
+   * @private
+   */
+  private buildURL(currentUrl?: string): URL {
+    try {
+      return new URL(currentUrl || window.location.href);
+    } catch (error) {
+      return new URL(currentUrl || 'http://localhost:3000');
+    }
   }
 
   /**
    * Encodes a state object into a URL string.
-   * The process is: Serialize -> Compress -> Encrypt -> Add Prefix -> URL-encode.
+   * The process is: Serialize -> Compress -> Encrypt -> Add Payload Header -> URL-encode.
    *
    * @template T The type of the state object.
    * @param state The state object to encode.
@@ -323,39 +641,48 @@ export class URLPersistence {
     }
 
     try {
-      const jsonState = JSON.stringify(state);
-      let processedState = jsonState;
-      let prefix = '';
+      if (this.codec) {
+        if (this.options.encrypt && this.options.encryptionKey) {
+          return { success: false, error: 'Readable URL codecs cannot encrypt the state. Use the json codec to encrypt it.' };
+        }
+        const url = this.buildURL(currentUrl);
+        const params = this.readParams(url);
+        this.codec.encode(state, params, this.options.paramName);
+        this.writeParams(url, params);
+        return { success: true, url: url.toString() };
+      }
+
+      const { version, baseline, compaction } = this.options;
+      const compact = (value: unknown) => (compaction ? compactState(value, compaction) : value);
+      const versionedState = wrapVersionedState(compact(state), version);
+      const persistedState = this.options.encodeAs === 'diff'
+        ? createStatePatch(wrapVersionedState(compact(baseline), version), versionedState)
+        : versionedState;
+      const serializedState = serialize(persistedState, this.options.serializer, this.options.types);
 
       // 1. Compression
       const shouldCompress = this.options.compress === true || 
-                             (this.options.compress === 'auto' && jsonState.length > 1000);
-      if (shouldCompress) {
-        let algorithm: CompressionAlgorithm = 'auto';
-        if (typeof this.options.compress === 'string' && this.options.compress !== 'auto') {
-          algorithm = this.options.compress;
-        }
-        processedState = await compress(processedState, algorithm);
-        prefix = 'c_';
+                             (this.options.compress === 'auto' && serializedState.length > 1000) ||
+                             (typeof this.options.compress === 'string' && this.options.compress !== 'auto');
+      let algorithm: CompressionAlgorithm = 'auto';
+      if (typeof this.options.compress === 'string' && this.options.compress !== 'auto') {
+        algorithm = this.options.compress;
       }
-      
-      // 2. Encryption (applied after compression)
-      if (this.options.encrypt && this.options.encryptionKey) {
-        processedState = await encrypt(processedState, this.options.encryptionKey);
-        prefix = prefix ? 'e' + prefix : 'e_'; // 'e_' or 'ec_'
-      }
-      
-      const finalPayload = prefix + processedState;
+
+      // 2. Encryption (applied after compression), behind a header recording both
+      const finalPayload = await encodePayload(serializedState, {
+        codec: this.options.serializer,
+        compression: shouldCompress ? algorithm : false,
+        encryptionKey: this.options.encrypt ? this.options.encryptionKey || undefined : undefined,
+        encryptionKeyId: this.options.encryptionKeyId,
+        allowInsecureFallback: this.options.allowInsecureFallback,
+      });
       
       // Build new URL
-      let url: URL;
-      try {
-        url = new URL(currentUrl || window.location.href);
-      } catch (error) {
-        url = new URL(currentUrl || 'http://localhost:3000');
-      }
-      
-      url.searchParams.set(this.options.paramName, finalPayload);
+      const url = this.buildURL(currentUrl);
+      const params = this.readParams(url);
+      params.set(this.options.paramName, finalPayload);
+      this.writeParams(url, params);
       
       return {
         success: true,
@@ -370,139 +697,266 @@ export class URLPersistence {
     }
   }
 
+  /**
+   * Reads the raw payload written by `encodeState`, e.g. to store it outside the URL.
+   *
+   * @param url The URL to read. Defaults to `window.location.href`.
+   * @returns The payload, or null if the URL holds none or the state is written by a readable codec.
+   */
+  readPayload(url?: string): string | null {
+    if (this.codec) return null;
+    return this.readParams(this.buildURL(url)).get(this.options.paramName);
+  }
+
+  /**
+   * Builds a URL whose state parameter refers to a payload stored elsewhere, written as `@<id>`.
+   *
+   * @param id The id of the stored payload.
+   * @param currentUrl The current URL to add the reference to. Defaults to `window.location.href`.
+   * @returns A result object containing the success status and the new URL.
+   */
+  encodeReference(id: string, currentUrl?: string): URLPersistenceResult {
+    if (this.codec) {
+      return { success: false, error: 'Readable URL codecs cannot refer to a stored payload. Use the json codec.' };
+    }
+    const url = this.buildURL(currentUrl);
+    const params = this.readParams(url);
+    params.set(this.options.paramName, `@${id}`);
+    this.writeParams(url, params);
+    return { success: true, url: url.toString() };
+  }
+
   /**
    * Decodes state from a URL's query parameter.
-   * The process is: URL-decode -> Detect Prefix -> Decrypt -> Decompress -> Parse.
-   * It is highly robust and can handle multiply-encoded or malformed data.
+   * The process is: URL-decode -> Read Payload Header (or legacy prefix) -> Decrypt -> Decompress -> Parse -> Migrate.
+   * In 'lenient' mode it can handle multiply-encoded or malformed data; in 'strict' mode
+   * (the default when `encrypt` is set) it only accepts the exact output of `encodeState`.
    *
    * @template T The expected type of the state object.
    * @param url The URL to decode from. Defaults to `window.location.href`.
-   * @returns A result object containing the success status and the decoded state.
+   * @returns A result object containing the success status and the decoded state, or an error code.
    */
-  async decodeState<T>(url?: string): Promise<{ success: boolean; state?: T; error?: string }> {
+  async decodeState<T>(url?: string): Promise<URLDecodeResult<T>> {
     if (!this.options.enabled) {
       return { success: true };
     }
 
     try {
-      let targetUrl: string;
-      let encodedPayload: string | null = null;
+      let searchParams: URLSearchParams;
       
       if (typeof window !== 'undefined') {
-        targetUrl = url || window.location.href;
-      const urlObj = new URL(targetUrl);
-        encodedPayload = urlObj.searchParams.get(this.options.paramName);
+        searchParams = this.readParams(new URL(url || window.location.href));
       } else if (url) {
-        const urlObj = new URL(url);
-        encodedPayload = urlObj.searchParams.get(this.options.paramName);
+        searchParams = this.readParams(new URL(url));
       } else {
         return { success: true };
       }
-      
+
+      // Readable codecs spread the state over several parameters.
+      if (this.codec) {
+        const state = this.codec.decode(searchParams, this.options.paramName);
+        return state === undefined ? { success: true } : { success: true, state: state as T };
+      }
+
+      let encodedPayload = searchParams.get(this.options.paramName);
       if (!encodedPayload) {
         return { success: true }; 
       }
-      
-      let decodedPayload = safeDecodeURIComponent(encodedPayload);
-
-      // --- New Prefix-Based Decoding Logic ---
-      let isEncrypted = false;
-      let isCompressed = false;
-
-      if (decodedPayload.startsWith('ec_')) {
-        isEncrypted = true;
-        isCompressed = true;
-        decodedPayload = decodedPayload.substring(3);
-      } else if (decodedPayload.startsWith('e_')) {
-        isEncrypted = true;
-        decodedPayload = decodedPayload.substring(2);
-      } else if (decodedPayload.startsWith('c_')) {
-        isCompressed = true;
-        decodedPayload = decodedPayload.substring(2);
-      }
-      
-      // 1. Decrypt if the prefix indicates encryption
-      if (isEncrypted) {
-        if (!this.options.encryptionKey) {
-          return { success: false, error: 'Data is encrypted, but no encryptionKey was provided.' };
+
+      // A `@<id>` reference stands for a payload kept in the short-link store
+      const shortLinkId = parseShortLinkReference(encodedPayload);
+      if (shortLinkId) {
+        const shortLinkStore = this.options.shortLinkStore ?? createShortLinkClient();
+        let storedPayload: string | null;
+        try {
+          storedPayload = await shortLinkStore.load(shortLinkId);
+        } catch (loadError) {
+          console.error('🔧 URLPersistence.decodeState - Short link error:', loadError);
+          return {
+            success: false,
+            error: loadError instanceof Error ? loadError.message : 'Unknown short link error',
+            code: 'SHORT_LINK_FAILED',
+          };
         }
+        if (storedPayload === null) {
+          return { success: false, error: `No payload is stored under "${shortLinkId}"`, code: 'SHORT_LINK_NOT_FOUND' };
+        }
+        encodedPayload = storedPayload;
+      }
+
+      // The parameter was already URL-decoded once when read, which is all a strict decode does.
+      // The mode follows the configuration, never the payload, which whoever wrote the URL controls.
+      const requireEncryption = this.options.encrypt && !!this.options.encryptionKey;
+      const decoding = this.options.decoding ?? (requireEncryption ? 'strict' : 'lenient');
+      const isStrict = decoding === 'strict';
+      const decodedPayload = isStrict ? encodedPayload : lenientDecodePayload(encodedPayload);
+
+      // Read the header (or legacy prefix), then decrypt and decompress as it describes
+      let decoded: DecodedPayload;
+      try {
+        decoded = await decodePayload(decodedPayload, {
+          encryptionKey: this.options.encryptionKey || undefined,
+          encryptionKeyId: this.options.encryptionKeyId,
+          allowInsecureFallback: this.options.allowInsecureFallback,
+          requireEncryption,
+          strict: isStrict,
+        });
+      } catch (payloadError) {
+        if (!(payloadError instanceof PayloadError)) throw payloadError;
+        console.error('🔧 URLPersistence.decodeState - Payload error:', payloadError.message);
+        return { success: false, error: payloadError.message, code: payloadError.code };
+      }
+
+      let parsed: unknown;
+      if (decoded.bytes) {
+        // Binary serializers have no syntax a lenient decode could repair
         try {
-          decodedPayload = await decrypt(decodedPayload, this.options.encryptionKey);
-        } catch (decryptError) {
-          console.error('🔧 URLPersistence.decodeState - Decryption failed:', decryptError);
+          parsed = deserialize(decoded.bytes, decoded.header.codec, this.options.types);
+        } catch (deserializeError) {
+          const errorMessage = deserializeError instanceof Error ? deserializeError.message : 'Unknown error';
+          console.error('🔧 URLPersistence.decodeState - Deserialization error:', errorMessage);
+          return { success: false, error: `Could not read the ${decoded.header.codec} state: ${errorMessage}`, code: 'INVALID_PAYLOAD' };
+        }
+      } else {
+        const jsonState = decoded.text;
+        if (!jsonState) {
+          return { success: false, error: 'Decoded state is empty', code: 'EMPTY_PAYLOAD' };
+        }
+      
+        const cleanedJsonState = isStrict ? jsonState : cleanJSONString(jsonState);
+        console.log('🔧 URLPersistence.decodeState - Final JSON to parse:', cleanedJsonState.substring(0, 100) + '...');
+      
+        // Parse JSON with better error handling
+          try {
+          parsed = deserialize(cleanedJsonState, 'json', this.options.types);
+          console.log('🔧 URLPersistence.decodeState - Successfully parsed state');
+        } catch (parseError) {
+          // Provide detailed error information for debugging
+          const errorMessage = parseError instanceof Error ? parseError.message : 'Unknown parse error';
+          const preview = cleanedJsonState.length > 100 
+            ? `${cleanedJsonState.substring(0, 100)}...` 
+            : cleanedJsonState;
+          
+          console.error('🔧 URLPersistence.decodeState - JSON parse error:', errorMessage, 'Input:', preview);
           return { 
             success: false, 
-            error: `Decryption failed: ${decryptError instanceof Error ? decryptError.message : 'Unknown error'}` 
+            error: `JSON parse error: ${errorMessage}. Input preview: "${preview}"`,
+            code: 'INVALID_JSON',
           };
         }
       }
-      
-      // 2. Decompress if the prefix indicates compression
-      let jsonState = decodedPayload;
-      if (isCompressed) {
+
+      // Rebuild diffs from the baseline they were taken against
+      const { baseline, compaction } = this.options;
+      if (isStatePatch(parsed)) {
+        const compactedBaseline = compaction && baseline !== undefined ? compactState(baseline, compaction) : baseline;
+        const versionedBaseline = wrapVersionedState(compactedBaseline, this.options.version);
+        if (baseline === undefined || parsed.$b !== hashBaseline(versionedBaseline)) {
+          return {
+            success: false,
+            error: 'The state was written as a diff against another baseline',
+            code: 'BASELINE_MISMATCH',
+          };
+        }
         try {
-          jsonState = await decompress(decodedPayload, 'auto');
-        } catch (decompressError) {
-          console.warn('🔧 URLPersistence.decodeState - Decompression failed:', decompressError);
-          // Unlike decryption, if decompression fails we can't proceed.
-           return { 
-            success: false, 
-            error: `Decompression failed: ${decompressError instanceof Error ? decompressError.message : 'Unknown error'}` 
+          parsed = applyStatePatch(versionedBaseline, parsed);
+        } catch (patchError) {
+          return {
+            success: false,
+            error: patchError instanceof Error ? patchError.message : 'Invalid patch',
+            code: 'INVALID_PAYLOAD',
           };
+        }
       }
+
+      // Expand states compacted with a schema, inside their version envelope if they have one
+      const compacted = isVersionedState(parsed) ? parsed.$s : parsed;
+      if (isCompactedState(compacted)) {
+        if (!compaction || compacted.$c !== hashBaseline(compaction)) {
+          return { success: false, error: 'The state was compacted with another schema', code: 'SCHEMA_MISMATCH' };
+        }
+        try {
+          const expanded = expandState(compacted, compaction);
+          parsed = isVersionedState(parsed) ? { ...parsed, $s: expanded } : expanded;
+        } catch (expandError) {
+          return {
+            success: false,
+            error: expandError instanceof Error ? expandError.message : 'Invalid compacted state',
+            code: 'INVALID_PAYLOAD',
+          };
+        }
       }
-      
-      if (!jsonState) {
-        return { success: false, error: 'Decoded state is empty' };
-      }
-      
-      const cleanedJsonState = cleanJSONString(jsonState);
-      console.log('🔧 URLPersistence.decodeState - Final JSON to parse:', cleanedJsonState.substring(0, 100) + '...');
-      
-      // Parse JSON with better error handling
+
+      // Upgrade payloads written with an older state version
       try {
-        const state = JSON.parse(cleanedJsonState) as T;
-        console.log('🔧 URLPersistence.decodeState - Successfully parsed state');
+        const state = await upgradePersistedState<T>(parsed, this.options.version, this.options.migrations);
         return { success: true, state };
-      } catch (parseError) {
-        // Provide detailed error information for debugging
-        const errorMessage = parseError instanceof Error ? parseError.message : 'Unknown parse error';
-        const preview = cleanedJsonState.length > 100 
-          ? `${cleanedJsonState.substring(0, 100)}...` 
-          : cleanedJsonState;
-          
-        console.error('🔧 URLPersistence.decodeState - JSON parse error:', errorMessage, 'Input:', preview);
-        return { 
-          success: false, 
-          error: `JSON parse error: ${errorMessage}. Input preview: "${preview}"` 
+      } catch (migrationError) {
+        console.error('🔧 URLPersistence.decodeState - Migration failed:', migrationError);
+        return {
+          success: false,
+          error: migrationError instanceof Error ? migrationError.message : 'Unknown migration error',
+          code: 'MIGRATION_FAILED',
         };
       }
     } catch (error) {
       console.error('🔧 URLPersistence.decodeState - General error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: 'INVALID_PAYLOAD',
       };
     }
   }
 
   /**
    * Updates the browser's current URL with the new state-filled URL without a page reload.
-   * This method uses `history.replaceState`.
+   * This method uses `history.replaceState`, or `history.pushState` in 'push' mode.
+   * A push to the URL that is already current is recorded as a replace, so no duplicate entries are created.
+   * Works for every `location`; like any History API update, it does not fire `hashchange` or `popstate`.
    *
    * @param url The new URL to set.
+   * @param mode Whether to replace the current history entry or push a new one. @default 'replace'
    */
-  updateURL(url: string): void {
+  updateURL(url: string, mode: HistoryMode = 'replace'): void {
     if (this.options.enabled && typeof window !== 'undefined') {
       console.log('🔧 URLPersistence.updateURL - Updating to:', url.substring(0, 150) + '...');
       console.log('🔧 URLPersistence.updateURL - Current URL before update:', window.location.href);
-      window.history.replaceState({}, '', url);
+      if (mode === 'push' && url !== window.location.href) {
+        window.history.pushState({}, '', url);
+      } else {
+        window.history.replaceState({}, '', url);
+      }
       console.log('🔧 URLPersistence.updateURL - Current URL after update:', window.location.href);
     } else {
       console.warn('🔧 URLPersistence.updateURL - Skipped (enabled:', this.options.enabled, ', window available:', typeof window !== 'undefined', ')');
     }
   }
 
+  /**
+   * Removes the state's parameters from the current URL, replacing the current history entry.
+   * Does nothing outside the browser or when the parameters are not present.
+   */
+  removeState(): void {
+    if (typeof window === 'undefined') return;
+
+    const currentUrl = new URL(window.location.href);
+    if (this.location === 'path' && !matchPathTemplate(this.pathTemplate!, currentUrl.pathname)) {
+      return;
+    }
+
+    const params = this.readParams(currentUrl);
+    if (this.codec) {
+      this.codec.remove(params, this.options.paramName);
+    } else {
+      params.delete(this.options.paramName);
+    }
+    this.writeParams(currentUrl, params);
+    if (currentUrl.toString() !== window.location.href) {
+      window.history.replaceState({}, '', currentUrl.toString());
+    }
+  }
+
   /**
    * A debug utility to inspect the raw and decoded state of the URL parameter.
    * This is useful for troubleshooting encoding and decoding issues.
@@ -524,11 +978,11 @@ export class URLPersistence {
         // Browser environment
         const targetUrl = url || window.location.href;
         const urlObj = new URL(targetUrl);
-        rawParam = urlObj.searchParams.get(this.options.paramName);
+        rawParam = this.readParams(urlObj).get(this.options.paramName);
       } else if (url) {
         // Server-side with provided URL
         const urlObj = new URL(url);
-        rawParam = urlObj.searchParams.get(this.options.paramName);
+        rawParam = this.readParams(urlObj).get(this.options.paramName);
       }
       
       if (!rawParam) {
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { mergeState, omitPaths, pickPaths, projectUrlState } from './projection.js';
+
+const state = {
+  view: 'grid',
+  filters: { category: 'books', price: { min: 0, max: 50 } },
+  items: [{ id: 1 }, { id: 2 }],
+  ui: { sidebarOpen: true },
+};
+
+describe('State Projection', () => {
+  describe('pickPaths', () => {
+    it('should keep only the given paths, preserving their nesting', () => {
+      expect(pickPaths(state, ['view', 'filters.price.max', 'missing.path'])).toEqual({
+        view: 'grid',
+        filters: { price: { max: 50 } },
+      });
+    });
+  });
+
+  describe('omitPaths', () => {
+    it('should remove the given paths without mutating the state', () => {
+      const result = omitPaths(state, ['items', 'filters.price', 'ui.missing']);
+
+      expect(result).toEqual({ view: 'grid', filters: { category: 'books' }, ui: { sidebarOpen: true } });
+      expect(result.ui).toBe(state.ui);
+      expect(state.filters.price).toBeDefined();
+    });
+  });
+
+  describe('mergeState', () => {
+    it('should merge plain objects recursively with the overlay winning', () => {
+      const merged = mergeState(state, { view: 'list', filters: { price: { max: 20 } } });
+
+      expect(merged).toEqual({ ...state, view: 'list', filters: { category: 'books', price: { min: 0, max: 20 } } });
+    });
+
+    it('should replace arrays and primitives', () => {
+      expect(mergeState(state, { items: [] }).items).toEqual([]);
+      expect(mergeState(1, 2)).toBe(2);
+    });
+  });
+
+  describe('projectUrlState', () => {
+    it('should apply urlFields paths, then omitFromUrl', () => {
+      expect(projectUrlState(state, { urlFields: ['view', 'filters'], omitFromUrl: ['filters.price'] })).toEqual({
+        view: 'grid',
+        filters: { category: 'books' },
+      });
+    });
+
+    it('should apply a projection function', () => {
+      expect(projectUrlState(state, { urlFields: (s) => ({ view: s.view }) })).toEqual({ view: 'grid' });
+    });
+
+    it('should return the state itself without a projection', () => {
+      expect(projectUrlState(state, {})).toBe(state);
+    });
+  });
+});
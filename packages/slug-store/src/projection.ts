@@ -0,0 +1,120 @@
+// State Projection Module
+import { isPlainObject } from './objects.js';
+/**
+ * Selects the part of the state written to the URL: a list of dot-separated key paths
+ * (e.g. `['filters.category', 'view']`), or a function returning the projected state.
+ */
+export type StateProjection<T> = string[] | ((state: T) => unknown);
+
+/**
+ * Options deciding which part of the state is written to the URL.
+ */
+export interface UrlProjectionOptions<T> {
+  /** Only these fields are written to the URL. */
+  urlFields?: StateProjection<T>;
+  /** These fields are left out of the URL. Applied after `urlFields`. */
+  omitFromUrl?: string[];
+}
+
+/**
+ * Copies the values at the given key paths into a new object with the same nesting.
+ * Paths that do not exist in the state are skipped.
+ *
+ * @param state The state to pick from.
+ * @param paths Dot-separated key paths.
+ * @returns An object containing only the picked paths.
+ */
+export function pickPaths(state: unknown, paths: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+
+  for (const path of paths) {
+    const segments = path.split('.');
+    let source: unknown = state;
+    let target = picked;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i]!;
+      if (!isPlainObject(source) || !(segment in source)) break;
+      source = source[segment];
+
+      if (i === segments.length - 1) {
+        target[segment] = source;
+      } else {
+        if (!isPlainObject(target[segment])) target[segment] = {};
+        target = target[segment] as Record<string, unknown>;
+      }
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Returns a copy of the state without the values at the given key paths.
+ * Only the objects along each path are copied; everything else is shared with the original.
+ *
+ * @param state The state to omit from.
+ * @param paths Dot-separated key paths.
+ * @returns The state without the omitted paths.
+ */
+export function omitPaths<T>(state: T, paths: string[]): T {
+  const omitPath = (value: unknown, segments: string[]): unknown => {
+    const [segment, ...rest] = segments;
+    if (!isPlainObject(value) || segment === undefined || !(segment in value)) return value;
+
+    const copy = { ...value };
+    if (rest.length === 0) {
+      delete copy[segment];
+    } else {
+      copy[segment] = omitPath(value[segment], rest);
+    }
+    return copy;
+  };
+
+  return paths.reduce((result, path) => omitPath(result, path.split('.')) as T, state);
+}
+
+/**
+ * Merges a partial state into a base state. Plain objects are merged recursively;
+ * any other value in `overlay` replaces the one in `base`.
+ *
+ * @param base The full state, e.g. loaded from offline storage.
+ * @param overlay The partial state that wins, e.g. loaded from the URL.
+ * @returns The merged state.
+ */
+export function mergeState<T>(base: T, overlay: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) return overlay as T;
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    merged[key] = key in base ? mergeState(base[key], value) : value;
+  }
+  return merged as T;
+}
+
+/**
+ * Whether the options restrict the part of the state written to the URL.
+ */
+export function hasUrlProjection<T>(options: UrlProjectionOptions<T>): boolean {
+  return options.urlFields !== undefined || (options.omitFromUrl?.length ?? 0) > 0;
+}
+
+/**
+ * Projects the state to the part written to the URL.
+ *
+ * @param state The full state.
+ * @param options The `urlFields` and `omitFromUrl` options.
+ * @returns The part of the state to write to the URL, or the state itself when no projection is configured.
+ */
+export function projectUrlState<T>(state: T, options: UrlProjectionOptions<T>): unknown {
+  const { urlFields, omitFromUrl } = options;
+
+  let projected: unknown = state;
+  if (typeof urlFields === 'function') {
+    projected = urlFields(state);
+  } else if (urlFields) {
+    projected = pickPaths(state, urlFields);
+  }
+
+  return omitFromUrl?.length ? omitPaths(projected, omitFromUrl) : projected;
+}
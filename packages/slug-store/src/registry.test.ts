@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { clearAllSlugStores, findConflictingOptions, getOrCreateSlugStore, mergeConsumerOptions, getSlugStore, retainSlugStore } from './registry.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+describe('Store Registry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the same store for the same key', () => {
+    const first = getOrCreateSlugStore('shared', { count: 0 });
+    const second = getOrCreateSlugStore('shared', { count: 5 });
+    const release = retainSlugStore(first);
+
+    expect(second).toBe(first);
+    expect(getSlugStore('shared')).toBe(first);
+    expect(second.get()).toEqual({ count: 0 });
+    release();
+  });
+
+  it('should destroy and unregister a store when its last consumer releases it', () => {
+    const store = getOrCreateSlugStore('released', 0);
+    const destroy = vi.spyOn(store, 'destroy');
+    const releaseA = retainSlugStore(store);
+    const releaseB = retainSlugStore(store);
+
+    releaseA();
+    releaseA();
+    expect(destroy).not.toHaveBeenCalled();
+    expect(getSlugStore('released')).toBe(store);
+
+    releaseB();
+    expect(destroy).toHaveBeenCalledOnce();
+    expect(getSlugStore('released')).toBeUndefined();
+  });
+
+  it('should warn once when a consumer passes conflicting options', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = getOrCreateSlugStore('conflict', 0, { url: true, debounceMs: 100 });
+    const release = retainSlugStore(store);
+
+    getOrCreateSlugStore('conflict', 0, { url: true, debounceMs: 100, onValidationError: () => {} });
+    expect(warn).not.toHaveBeenCalled();
+
+    getOrCreateSlugStore('conflict', 0, { offline: true, debounceMs: 100 });
+    getOrCreateSlugStore('conflict', 0, { offline: true, debounceMs: 100 });
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0]?.[0]).toContain('conflicting options (url, offline)');
+    expect(store.getOptions()).toEqual({ url: true, debounceMs: 100 });
+    release();
+  });
+
+  it('should not treat options re-created on every render as changes', () => {
+    const render = () => ({
+      url: true,
+      history: () => 'push' as const,
+      onError: () => {},
+      schema: (value: unknown) => typeof value === 'object',
+      overflow: ['compress' as const],
+    });
+
+    expect(findConflictingOptions(render(), render())).toEqual([]);
+    expect(findConflictingOptions(render(), { ...render(), url: false, debounceMs: 100 })).toEqual(['url', 'debounceMs']);
+  });
+
+  it('should report conflicts in URL layout and overflow options', () => {
+    const render = () => ({ url: true, location: 'search' as const, urlFields: ['filters'], compaction: true, overflow: ['compress' as const] });
+
+    expect(findConflictingOptions(render(), {
+      ...render(),
+      location: 'hash',
+      pathTemplate: '/board/:state',
+      codec: 'flat',
+      urlFields: ['filters', 'sort'],
+      omitFromUrl: ['draft'],
+      compaction: false,
+      overflow: ['offline-only'],
+      decoding: 'lenient',
+    })).toEqual(['location', 'pathTemplate', 'decoding', 'codec', 'urlFields', 'omitFromUrl', 'compaction', 'overflow']);
+  });
+
+  it('should apply the latest callbacks of a consumer without overriding shared options', () => {
+    const first = { onError: vi.fn(), history: vi.fn(() => 'push' as const) };
+    const latest = { onError: vi.fn(), onInvalid: vi.fn(), onOverflow: vi.fn(), history: vi.fn(() => 'replace' as const) };
+    const current = { url: true, overflow: ['compress' as const], ...first };
+
+    const merged = mergeConsumerOptions(current, { offline: true, ...first }, { offline: true, ...latest });
+    expect(merged).toEqual({ url: true, overflow: current.overflow, ...latest });
+    expect(merged.overflow).toBe(current.overflow);
+
+    const changed = { offline: true, debounceMs: 100, ...latest };
+    expect(mergeConsumerOptions(current, { offline: true, ...first }, changed)).toBe(changed);
+  });
+
+  it('should not share stores on the server', () => {
+    vi.stubGlobal('window', undefined);
+    const first = getOrCreateSlugStore('server', { user: 'a' });
+    const second = getOrCreateSlugStore('server', { user: 'b' });
+    vi.unstubAllGlobals();
+
+    expect(second).not.toBe(first);
+    expect(second.get()).toEqual({ user: 'b' });
+    expect(getSlugStore('server')).toBeUndefined();
+  });
+
+  it('should register a released store again when it is retained', () => {
+    const store = getOrCreateSlugStore('remounted', 0);
+    retainSlugStore(store)();
+
+    const release = retainSlugStore(store);
+    expect(getSlugStore('remounted')).toBe(store);
+    release();
+  });
+
+  describe('clearAllSlugStores', () => {
+    it('should reset stores in use and remove every offline entry and slug URL parameter', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(OfflinePersistence.prototype, 'listKeys').mockResolvedValue(['cart', 'draft']);
+      const deleteState = vi.spyOn(OfflinePersistence.prototype, 'deleteState').mockResolvedValue({ success: true });
+      window.history.replaceState({}, '', 'http://localhost:3000/?filters=%7B%7D&draft=c_eyJhIjoxfQ&page=2');
+      const store = getOrCreateSlugStore('filters', { view: 'grid' });
+      const release = retainSlugStore(store);
+      store.set({ view: 'list' });
+
+      const cleared = await clearAllSlugStores();
+
+      expect(cleared).toEqual(expect.arrayContaining(['cart', 'draft', 'filters']));
+      expect(cleared).not.toContain('page');
+      expect(store.get()).toEqual({ view: 'grid' });
+      expect(deleteState).toHaveBeenCalledWith('cart');
+      expect(window.location.search).toBe('?page=2');
+      release();
+    });
+
+    it('should leave parameters of other keys alone, even when they look like payloads', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(OfflinePersistence.prototype, 'listKeys').mockResolvedValue(['cart']);
+      vi.spyOn(OfflinePersistence.prototype, 'deleteState').mockResolvedValue({ success: true });
+      const search = '?release=v1.2.3&ref=%40alice&utm=c_campaign&contact=e_mail&raw=v1.j.n..%25E0%25A4';
+      window.history.replaceState({}, '', `http://localhost:3000/${search}&cart=v1.j.n..%5B%5D`);
+
+      expect(await clearAllSlugStores()).toContain('cart');
+      expect(window.location.search).toBe(search);
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('OfflinePersistence.listKeys', () => {
+  it('should list the keys stored under the prefix', async () => {
+    const persistence = new OfflinePersistence({ enabled: true, storage: 'memory', prefix: 'app' });
+    await persistence.saveState('filters', {});
+    await persistence.saveState('cart', []);
+
+    expect(await persistence.listKeys()).toEqual(['filters', 'cart']);
+  });
+});
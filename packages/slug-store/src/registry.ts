@@ -0,0 +1,261 @@
+// Store Registry Module
+import { createSlugStore, type SlugStore, type SlugStoreOptions } from './store.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+/**
+ * Options that must agree between consumers sharing a store, because they decide
+ * where, how or when the shared state is written.
+ */
+const SHARED_OPTION_KEYS = [
+  'url',
+  'offline',
+  'hybrid',
+  'autoConfig',
+  'encryptionKey',
+  'encryptionKeyId',
+  'allowInsecureFallback',
+  'debounceMs',
+  'throttleMs',
+  'history',
+  'sync',
+  'version',
+  'maxUrlLength',
+  'serializer',
+  'encodeAs',
+  'location',
+  'pathTemplate',
+  'decoding',
+  'codec',
+  'urlFields',
+  'omitFromUrl',
+  'compaction',
+  'overflow',
+] as const;
+
+/**
+ * A registered store and the number of consumers currently using it.
+ */
+interface RegistryEntry {
+  store: SlugStore<any>;
+  refs: number;
+  /** The conflicting options already reported, so each conflict is only warned about once. */
+  warnedConflicts: Set<string>;
+}
+
+/**
+ * The stores shared by every hook using the same key.
+ */
+const registry = new Map<string, RegistryEntry>();
+
+/**
+ * Compares two option values. Arrays and objects are compared by their contents and functions
+ * are treated as equal, since inline functions, objects and arrays differ on every render.
+ */
+function isSameOption(a: unknown, b: unknown): boolean {
+  if (typeof a === 'function' && typeof b === 'function') return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameOption(item, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) =>
+      Object.hasOwn(b, key) && isSameOption((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    );
+  }
+  return Object.is(a, b);
+}
+
+/**
+ * Lists the shared options that differ between two option objects. Other options are not
+ * compared, and neither are functions such as `history` or a codec's `encode`.
+ *
+ * @param current The options in use.
+ * @param requested The options requested by a consumer.
+ * @returns The keys of the shared options that differ.
+ */
+export function findConflictingOptions(current: SlugStoreOptions<any>, requested: SlugStoreOptions<any>): string[] {
+  return SHARED_OPTION_KEYS.filter((optionKey) => !isSameOption(current[optionKey], requested[optionKey]));
+}
+
+/**
+ * Returns the options a consumer applies to a shared store when it re-renders. Its callbacks,
+ * including a `history` function, are always the latest ones. The other shared options keep the
+ * store's values unless the consumer changed them since its last render, so components sharing a
+ * key do not overwrite each other's options.
+ *
+ * @param current The options in use by the store.
+ * @param previous The options the consumer passed on its last render.
+ * @param requested The options the consumer passes now.
+ * @returns The options to apply to the store.
+ */
+export function mergeConsumerOptions<T>(
+  current: SlugStoreOptions<T>,
+  previous: SlugStoreOptions<T>,
+  requested: SlugStoreOptions<T>
+): SlugStoreOptions<T> {
+  if (findConflictingOptions(previous, requested).length > 0) return requested;
+
+  const merged: Record<string, unknown> = { ...requested };
+  for (const optionKey of SHARED_OPTION_KEYS) {
+    if (typeof current[optionKey] === 'function' && typeof requested[optionKey] === 'function') continue;
+    if (Object.hasOwn(current, optionKey)) {
+      merged[optionKey] = current[optionKey];
+    } else {
+      delete merged[optionKey];
+    }
+  }
+  return merged as SlugStoreOptions<T>;
+}
+
+/**
+ * Returns the store registered for a key, if any.
+ *
+ * @template T The type of the state.
+ * @param key The slug-store key.
+ * @returns The registered store, or undefined if no store uses this key.
+ */
+export function getSlugStore<T>(key: string): SlugStore<T> | undefined {
+  return registry.get(key)?.store;
+}
+
+/**
+ * Returns the store registered for a key, creating and registering it if needed.
+ * Creating a store has no side effects until it is hydrated, so this is safe to call during render.
+ *
+ * Every consumer of a key shares the store created first. If a later consumer requests
+ * different persistence options, a warning is logged and the store keeps its options.
+ *
+ * On the server, a new store is created on every call and never registered: the registry
+ * outlives requests, so sharing stores there would leak one request's state into another.
+ *
+ * @template T The type of the state.
+ * @param key The slug-store key.
+ * @param initialState The initial state, used only if the store is created.
+ * @param options The store options, used only if the store is created.
+ * @returns The shared store.
+ */
+export function getOrCreateSlugStore<T>(
+  key: string,
+  initialState: T,
+  options: SlugStoreOptions<T> = {}
+): SlugStore<T> {
+  if (typeof window === 'undefined') {
+    return createSlugStore(key, initialState, options);
+  }
+
+  const existing = registry.get(key);
+  if (existing) {
+    const conflicts = findConflictingOptions(existing.store.getOptions(), options)
+      .filter((optionKey) => !existing.warnedConflicts.has(optionKey));
+    if (conflicts.length > 0) {
+      conflicts.forEach((optionKey) => existing.warnedConflicts.add(optionKey));
+      console.warn(
+        `Slug Store [${key}] - Components using this key passed conflicting options (${conflicts.join(', ')}). ` +
+        `They share one store, which keeps the options it was created with.`
+      );
+    }
+    return existing.store;
+  }
+
+  const store = createSlugStore(key, initialState, options);
+  registry.set(key, { store, refs: 0, warnedConflicts: new Set() });
+  return store;
+}
+
+/**
+ * Marks a store as in use. When the last consumer releases it, the store is
+ * destroyed (flushing pending writes) and removed from the registry.
+ *
+ * @param store The store to retain. It is registered again if it was removed in the meantime.
+ * @returns A function that releases the store.
+ */
+export function retainSlugStore(store: SlugStore<any>): () => void {
+  let entry = registry.get(store.key);
+  if (!entry) {
+    entry = { store, refs: 0, warnedConflicts: new Set() };
+    registry.set(store.key, entry);
+  }
+  entry.refs++;
+
+  const retained = entry;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    retained.refs--;
+    if (retained.refs <= 0) {
+      retained.store.destroy();
+      if (registry.get(retained.store.key) === retained) {
+        registry.delete(retained.store.key);
+      }
+    }
+  };
+}
+
+/**
+ * Options for `clearAllSlugStores`.
+ */
+export interface ClearAllSlugStoresOptions {
+  /**
+   * The `OfflinePersistence` prefix whose entries are removed.
+   * Stores created by `useSlugStore` and `createSlugStore` use the default.
+   * @default 'slug-store'
+   */
+  prefix?: string;
+}
+
+/**
+ * Removes every slug-store state: resets the stores currently in use, deletes every offline
+ * entry under the prefix (IndexedDB and localStorage), and removes the URL parameters of those keys
+ * from the query and the fragment. Other parameters are left alone, even when they look like a
+ * payload: the parameter of a URL-only store that is not in use cannot be told apart from the app's own.
+ *
+ * @param options The prefix of the offline entries to remove.
+ * @returns The keys that were cleared.
+ *
+ * @example
+ * // On logout
+ * await clearAllSlugStores();
+ */
+export async function clearAllSlugStores(options: ClearAllSlugStoresOptions = {}): Promise<string[]> {
+  const { prefix = 'slug-store' } = options;
+  const clearedKeys = new Set<string>();
+
+  // Stores in use are written with the default prefix.
+  if (prefix === 'slug-store') {
+    for (const { store } of registry.values()) {
+      await store.clear();
+      clearedKeys.add(store.key);
+    }
+  }
+
+  const storages = [
+    ...(typeof indexedDB !== 'undefined' ? ['indexeddb' as const] : []),
+    ...(typeof localStorage !== 'undefined' ? ['localstorage' as const] : []),
+  ];
+  for (const storage of storages) {
+    const offlinePersistence = new OfflinePersistence({ enabled: true, storage, prefix });
+    for (const key of await offlinePersistence.listKeys()) {
+      await offlinePersistence.deleteState(key);
+      clearedKeys.add(key);
+    }
+  }
+
+  if (typeof window !== 'undefined') {
+    const currentUrl = new URL(window.location.href);
+    const locations = [
+      { location: 'search' as const, params: currentUrl.searchParams },
+      { location: 'hash' as const, params: new URLSearchParams(currentUrl.hash.substring(1)) },
+    ];
+    for (const { location, params } of locations) {
+      for (const key of clearedKeys) {
+        if (params.has(key)) {
+          new URLPersistence({ enabled: true, paramName: key, location }).removeState();
+        }
+      }
+    }
+  }
+
+  return [...clearedKeys];
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPersistScheduler, onPageHide } from './scheduler.js';
+
+describe('Persist Scheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createPersistScheduler', () => {
+    it('should write immediately when no timing is configured', async () => {
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = createPersistScheduler(task);
+
+      scheduler.schedule('a');
+      await vi.runAllTimersAsync();
+
+      expect(task).toHaveBeenCalledWith('a');
+    });
+
+    it('should coalesce values scheduled while a write is in flight', async () => {
+      let finishWrite: () => void = () => {};
+      const task = vi.fn(() => new Promise<void>((resolve) => { finishWrite = resolve; }));
+      const scheduler = createPersistScheduler(task);
+
+      scheduler.schedule('a');
+      await vi.advanceTimersByTimeAsync(0);
+      scheduler.schedule('b');
+      scheduler.schedule('c');
+      finishWrite();
+      await vi.advanceTimersByTimeAsync(0);
+      finishWrite();
+      await scheduler.flush();
+
+      expect(task.mock.calls).toEqual([['a'], ['c']]);
+    });
+
+    it('should only write the last value of a debounced burst', async () => {
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = createPersistScheduler(task, { debounceMs: 300 });
+
+      scheduler.schedule('h');
+      await vi.advanceTimersByTimeAsync(200);
+      scheduler.schedule('he');
+      await vi.advanceTimersByTimeAsync(200);
+      scheduler.schedule('hey');
+      await vi.advanceTimersByTimeAsync(299);
+      expect(task).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(task.mock.calls).toEqual([['hey']]);
+    });
+
+    it('should write at most once per throttle window', async () => {
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = createPersistScheduler(task, { throttleMs: 1000 });
+
+      scheduler.schedule(1);
+      await vi.advanceTimersByTimeAsync(0);
+      scheduler.schedule(2);
+      scheduler.schedule(3);
+      await vi.advanceTimersByTimeAsync(999);
+      expect(task.mock.calls).toEqual([[1]]);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(task.mock.calls).toEqual([[1], [3]]);
+    });
+
+    it('should not let a continuous debounce postpone writes beyond the throttle window', async () => {
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = createPersistScheduler(task, { debounceMs: 300, throttleMs: 1000 });
+
+      for (let i = 1; i <= 10; i++) {
+        scheduler.schedule(i);
+        await vi.advanceTimersByTimeAsync(200);
+      }
+
+      expect(task.mock.calls[0]).toEqual([5]);
+    });
+
+    it('should write the pending value on flush', async () => {
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = createPersistScheduler(task, { debounceMs: 5000 });
+
+      scheduler.schedule('final edit');
+      expect(scheduler.pending).toBe(true);
+      await scheduler.flush();
+
+      expect(task).toHaveBeenCalledWith('final edit');
+      expect(scheduler.pending).toBe(false);
+    });
+
+    it('should drop the pending value on cancel', async () => {
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = createPersistScheduler(task, { debounceMs: 100 });
+
+      scheduler.schedule('discarded');
+      scheduler.cancel();
+      await vi.runAllTimersAsync();
+
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should report failed writes and keep accepting new ones', async () => {
+      const onError = vi.fn();
+      const task = vi.fn()
+        .mockRejectedValueOnce(new Error('quota exceeded'))
+        .mockResolvedValue(undefined);
+      const scheduler = createPersistScheduler(task, {}, onError);
+
+      scheduler.schedule('a');
+      await scheduler.flush();
+      scheduler.schedule('b');
+      await scheduler.flush();
+
+      expect(onError).toHaveBeenCalledWith(new Error('quota exceeded'));
+      expect(task).toHaveBeenLastCalledWith('b');
+    });
+  });
+
+  describe('onPageHide', () => {
+    it('should call the callback on pagehide and when the document becomes hidden', () => {
+      const callback = vi.fn();
+      const remove = onPageHide(callback);
+
+      window.dispatchEvent(new Event('pagehide'));
+      const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+      document.dispatchEvent(new Event('visibilitychange'));
+      expect(callback).toHaveBeenCalledTimes(2);
+
+      remove();
+      window.dispatchEvent(new Event('pagehide'));
+      document.dispatchEvent(new Event('visibilitychange'));
+      expect(callback).toHaveBeenCalledTimes(2);
+      visibility.mockRestore();
+    });
+  });
+});
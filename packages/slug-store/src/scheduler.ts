@@ -0,0 +1,140 @@
+// Persistence Scheduler Module
+/**
+ * Timing options for persistence writes.
+ */
+export interface PersistScheduleOptions {
+  /**
+   * Waits until no update has happened for this many milliseconds before writing.
+   * @default 0
+   */
+  debounceMs?: number;
+  /**
+   * Writes at most once per this many milliseconds. Combined with `debounceMs`,
+   * it caps how long a continuous stream of updates can postpone a write.
+   * @default 0
+   */
+  throttleMs?: number;
+}
+
+/**
+ * Coalesces rapid state updates into as few persistence writes as possible.
+ */
+export interface PersistScheduler<T> {
+  /** Queues a value to be written, replacing any value that has not been written yet. */
+  schedule(value: T): void;
+  /** Writes the queued value immediately. Resolves once every pending write has finished. */
+  flush(): Promise<void>;
+  /** Drops the queued value without writing it. */
+  cancel(): void;
+  /** Whether a value is queued and has not been written yet. */
+  readonly pending: boolean;
+}
+
+/**
+ * Creates a scheduler that runs `task` with the latest scheduled value.
+ * Writes never overlap: a value scheduled while a write is in flight is written once it finishes,
+ * and only the most recent value is kept.
+ *
+ * @template T The type of the values being written.
+ * @param task The write to perform.
+ * @param options Debounce and throttle timings.
+ * @param onError Called when `task` rejects. Defaults to `console.error`.
+ * @returns The scheduler.
+ */
+export function createPersistScheduler<T>(
+  task: (value: T) => Promise<void>,
+  options: PersistScheduleOptions = {},
+  onError: (error: unknown) => void = console.error
+): PersistScheduler<T> {
+  const debounceMs = Math.max(0, options.debounceMs ?? 0);
+  const throttleMs = Math.max(0, options.throttleMs ?? 0);
+
+  let queued: { value: T } | null = null;
+  let queuedAt: number | null = null;
+  let lastRunAt = -Infinity;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const run = async (): Promise<void> => {
+    clearTimer();
+    while (running) {
+      await running;
+    }
+    if (!queued) return;
+
+    const { value } = queued;
+    queued = null;
+    queuedAt = null;
+    lastRunAt = Date.now();
+
+    const current = Promise.resolve()
+      .then(() => task(value))
+      .catch(onError);
+    running = current;
+    await current;
+    if (running === current) {
+      running = null;
+    }
+  };
+
+  return {
+    schedule(value: T) {
+      const now = Date.now();
+      queued = { value };
+      queuedAt ??= now;
+
+      let delay = debounceMs;
+      if (throttleMs > 0) {
+        const throttleDelay = Math.max(0, lastRunAt + throttleMs - now);
+        delay = debounceMs > 0
+          ? Math.min(debounceMs, Math.max(0, queuedAt + throttleMs - now))
+          : throttleDelay;
+      }
+
+      clearTimer();
+      if (delay <= 0) {
+        void run();
+      } else {
+        timer = setTimeout(() => void run(), delay);
+      }
+    },
+    flush: run,
+    cancel() {
+      clearTimer();
+      queued = null;
+      queuedAt = null;
+    },
+    get pending() {
+      return queued !== null;
+    },
+  };
+}
+
+/**
+ * Calls `callback` when the page is being hidden or unloaded, which is the last
+ * reliable moment to flush pending writes (`pagehide`, or `visibilitychange` to hidden).
+ *
+ * @param callback The function to call.
+ * @returns A function that removes the listeners.
+ */
+export function onPageHide(callback: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') callback();
+  };
+
+  window.addEventListener('pagehide', callback);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  return () => {
+    window.removeEventListener('pagehide', callback);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+}
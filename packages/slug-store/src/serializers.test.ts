@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { serialize, deserialize } from './serializers.js';
+import { encodeMessagePack, decodeMessagePack } from './msgpack.js';
+import { encodeCBOR, decodeCBOR } from './cbor.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+// A state with every kind of value and each size class of the binary formats.
+const mixedState = {
+  integers: [0, 1, 127, 128, 255, 256, 65535, 65536, 2 ** 32, 2 ** 40, -1, -32, -33, -128, -129, -32768, -32769, -(2 ** 31) - 1],
+  floats: [1.5, 0.1, -2.25, 1e300],
+  strings: ['', 'a', 'x'.repeat(31), 'x'.repeat(32), 'y'.repeat(300), 'z'.repeat(70000), '¿Qué? 日本語 😀'],
+  flags: [true, false, null],
+  nested: { list: [[1, [2, [3]]]], map: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`key${i}`, i])) },
+  long: Array.from({ length: 70000 }, (_, i) => i % 3),
+};
+
+// The states the size comparisons are measured on.
+const stateFixtures = {
+  wishlist: {
+    items: Array.from({ length: 25 }, (_, i) => ({
+      id: `item-${i}`,
+      name: ['Wireless headphones', 'Running shoes', 'Coffee grinder', 'Desk lamp', 'Backpack'][i % 5],
+      price: 19.99 + i * 5,
+      currency: 'USD',
+      inStock: i % 4 !== 0,
+      tags: i % 2 ? ['sale', 'popular'] : ['new'],
+    })),
+    sortBy: 'price',
+    view: 'grid',
+  },
+  filters: {
+    query: 'mid-century modern chair',
+    categories: ['furniture', 'living-room', 'office'],
+    price: { min: 50, max: 400 },
+    colors: ['walnut', 'oak', 'black'],
+    page: 3,
+    view: 'list',
+  },
+};
+
+describe('serializers', () => {
+  describe.each([
+    ['msgpack', encodeMessagePack, decodeMessagePack],
+    ['cbor', encodeCBOR, decodeCBOR],
+  ] as const)('%s', (serializer, encode, decode) => {
+    it('should round-trip every kind of value', () => {
+      expect(decode(encode(mixedState))).toEqual(mixedState);
+      expect(deserialize(serialize(mixedState, serializer), serializer)).toEqual(mixedState);
+    });
+
+    it('should store what JSON.stringify stores', () => {
+      const state = {
+        date: new Date('2024-05-01T12:00:00.000Z'),
+        missing: undefined,
+        callback: () => {},
+        list: [undefined, NaN, Infinity],
+        custom: { toJSON: () => 'custom' },
+      };
+
+      expect(decode(encode(state))).toEqual(JSON.parse(JSON.stringify(state)));
+    });
+
+    it('should reject BigInt values, like JSON.stringify', () => {
+      expect(() => encode({ count: 1n })).toThrow(TypeError);
+    });
+
+    it('should decode __proto__ as an own property', () => {
+      const state = JSON.parse('{"__proto__":{"admin":true}}');
+      const decoded = decode(encode(state)) as Record<string, unknown>;
+
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(Object.keys(decoded)).toEqual(['__proto__']);
+    });
+
+    it('should reject truncated and trailing data', () => {
+      const encoded = encode({ view: 'grid' });
+
+      expect(() => decode(encoded.subarray(0, encoded.length - 1))).toThrow('Unexpected end of data');
+      expect(() => decode(bytes(...encoded, 0))).toThrow('Unexpected data');
+    });
+
+    it('should reject invalid UTF-8', () => {
+      const encoded = encode('ab');
+      encoded[encoded.length - 1] = 0xff;
+
+      expect(() => decode(encoded)).toThrow();
+    });
+  });
+
+  describe('wire format', () => {
+    it('should write MessagePack in its smallest formats', () => {
+      expect(encodeMessagePack({ a: 1 })).toEqual(bytes(0x81, 0xa1, 0x61, 0x01));
+      expect(encodeMessagePack([-1, 200, 1.5])).toEqual(bytes(0x93, 0xff, 0xcc, 0xc8, 0xca, 0x3f, 0xc0, 0x00, 0x00));
+    });
+
+    it('should write CBOR in its smallest formats', () => {
+      expect(encodeCBOR({ a: 1 })).toEqual(bytes(0xa1, 0x61, 0x61, 0x01));
+      expect(encodeCBOR([-1, 500, 1.5])).toEqual(bytes(0x83, 0x20, 0x19, 0x01, 0xf4, 0xfa, 0x3f, 0xc0, 0x00, 0x00));
+    });
+
+    it('should decode CBOR half-precision floats written by other encoders', () => {
+      expect(decodeCBOR(bytes(0x83, 0xf9, 0x3c, 0x00, 0xf9, 0xc4, 0x00, 0xf9, 0x7c, 0x00))).toEqual([1, -4, Infinity]);
+    });
+
+    it('should reject CBOR tags and indefinite lengths', () => {
+      expect(() => decodeCBOR(bytes(0xc1, 0x00))).toThrow('tags');
+      expect(() => decodeCBOR(bytes(0x9f, 0x01, 0xff))).toThrow('Indefinite');
+    });
+
+    it('should reject MessagePack extension types', () => {
+      expect(() => decodeMessagePack(bytes(0xd4, 0x01, 0x00))).toThrow('Unsupported MessagePack type 0xd4');
+    });
+
+    it('should reject data that does not match the serializer', () => {
+      expect(() => deserialize(bytes(0x80), 'json')).toThrow(TypeError);
+      expect(() => deserialize('{}', 'cbor')).toThrow(TypeError);
+    });
+  });
+
+  describe('persistence', () => {
+    beforeEach(() => {
+      window.history.replaceState({}, '', 'http://localhost:3000/');
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const paramOf = (url: string) => new URL(url).searchParams.get('s') ?? '';
+
+    it.each([
+      ['msgpack', 'm'],
+      ['cbor', 'c'],
+    ] as const)('should record %s in the URL payload header', async (serializer, code) => {
+      const persistence = new URLPersistence({ enabled: true, paramName: 's', compress: false, serializer });
+      const { url } = await persistence.encodeState(stateFixtures.filters, 'http://localhost:3000/');
+
+      expect(paramOf(url!)).toMatch(new RegExp(`^v1\\.${code}\\.n\\.\\.`));
+      // Readers need no serializer option: the header says how to read the payload.
+      expect(await new URLPersistence({ enabled: true, paramName: 's' }).decodeState(url!))
+        .toEqual({ success: true, state: stateFixtures.filters });
+    });
+
+    it('should round-trip compressed binary payloads', async () => {
+      const options = { enabled: true, paramName: 's', compress: true, serializer: 'cbor' } as const;
+      const { url } = await new URLPersistence(options).encodeState(stateFixtures.wishlist, 'http://localhost:3000/');
+
+      expect(paramOf(url!)).toMatch(/^v1\.c\.z\.\./);
+      expect(await new URLPersistence(options).decodeState(url!)).toEqual({ success: true, state: stateFixtures.wishlist });
+    });
+
+    it('should report a corrupted binary payload', async () => {
+      // A three-item array that ends after its first item
+      const url = 'http://localhost:3000/?s=v1.m.n..kwE';
+      const result = await new URLPersistence({ enabled: true, paramName: 's' }).decodeState(url);
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_PAYLOAD' });
+    });
+
+    it('should round-trip binary offline entries', async () => {
+      const writer = new OfflinePersistence({ enabled: true, storage: 'localstorage', serializer: 'msgpack' });
+      await writer.saveState('filters', stateFixtures.filters);
+
+      const [, stored] = vi.mocked(localStorage.setItem).mock.lastCall!;
+      expect(JSON.parse(stored).payload).toMatch(/^v1\.m\.n\.\./);
+
+      vi.mocked(localStorage.getItem).mockReturnValueOnce(stored);
+      const reader = new OfflinePersistence({ enabled: true, storage: 'localstorage' });
+      expect(await reader.loadState('filters')).toMatchObject({ success: true, data: stateFixtures.filters });
+    });
+  });
+
+  describe('size comparison', () => {
+    const urlLength = async (state: unknown, serializer: 'json' | 'msgpack' | 'cbor', compress: boolean) => {
+      const persistence = new URLPersistence({ enabled: true, paramName: 's', compress, serializer });
+      const { url } = await persistence.encodeState(state, 'http://localhost:3000/');
+      return new URL(url!).search.length;
+    };
+
+    it.each(Object.keys(stateFixtures))('should write the uncompressed %s state shorter than JSON', async (name) => {
+      const state = stateFixtures[name as keyof typeof stateFixtures];
+      const json = await urlLength(state, 'json', false);
+
+      // JSON punctuation is percent-encoded in URLs; base64url never is.
+      expect(await urlLength(state, 'msgpack', false)).toBeLessThan(json * 0.7);
+      expect(await urlLength(state, 'cbor', false)).toBeLessThan(json * 0.7);
+    });
+
+    it.each(Object.keys(stateFixtures))('should write the compressed %s state shorter than JSON', async (name) => {
+      const state = stateFixtures[name as keyof typeof stateFixtures];
+      const json = await urlLength(state, 'json', true);
+
+      // Without CompressionStream in tests, this compares lz-string output.
+      expect(await urlLength(state, 'msgpack', true)).toBeLessThan(json);
+      expect(await urlLength(state, 'cbor', true)).toBeLessThan(json);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+// Serializer Module
+import { encodeMessagePack, decodeMessagePack } from './msgpack.js';
+import { encodeCBOR, decodeCBOR } from './cbor.js';
+import { encodeTaggedValues, decodeTaggedValues, type TypeHandler } from './tagged-values.js';
+
+/**
+ * How a state is turned into text or bytes before it is compressed and encrypted.
+ * - 'json' writes JSON text. It is the most forgiving to read and edit by hand.
+ * - 'msgpack' writes MessagePack: no quotes or braces, and compact numbers.
+ * - 'cbor' writes CBOR (RFC 8949), which is about as compact as MessagePack.
+ *
+ * All three store Dates, Maps, Sets, BigInts and undefined as tagged values, which are rebuilt
+ * on decode. The serializer is recorded in the payload header, so payloads decode whatever
+ * serializer is configured.
+ */
+export type SerializerName = 'json' | 'msgpack' | 'cbor';
+
+/**
+ * Converts states to bytes and back.
+ */
+interface BinarySerializer {
+  encode(value: unknown): Uint8Array;
+  decode(bytes: Uint8Array): unknown;
+}
+
+const BINARY_SERIALIZERS: Record<Exclude<SerializerName, 'json'>, BinarySerializer> = {
+  msgpack: { encode: encodeMessagePack, decode: decodeMessagePack },
+  cbor: { encode: encodeCBOR, decode: decodeCBOR },
+};
+
+/**
+ * Serializes a state, tagging the values JSON cannot represent.
+ *
+ * @param value The state.
+ * @param serializer The serializer to use.
+ * @param types Handlers for types beyond the built-in ones.
+ * @returns JSON text for 'json', bytes for the binary serializers.
+ * @throws {TypeError} If the state cannot be serialized, e.g. because it is circular.
+ */
+export function serialize(value: unknown, serializer: SerializerName = 'json', types?: TypeHandler[]): string | Uint8Array {
+  const tagged = encodeTaggedValues(value, types);
+  return serializer === 'json' ? JSON.stringify(tagged) : BINARY_SERIALIZERS[serializer].encode(tagged);
+}
+
+/**
+ * Deserializes a state written by `serialize`, rebuilding its tagged values.
+ *
+ * @param data JSON text for 'json', bytes for the binary serializers.
+ * @param serializer The serializer the state was written with.
+ * @param types Handlers for types beyond the built-in ones.
+ * @returns The state.
+ * @throws If the data is malformed, or does not match the serializer.
+ */
+export function deserialize(data: string | Uint8Array, serializer: SerializerName, types?: TypeHandler[]): unknown {
+  if (serializer === 'json') {
+    if (typeof data !== 'string') throw new TypeError('JSON must be deserialized from text');
+    return decodeTaggedValues(JSON.parse(data), types);
+  }
+  if (typeof data === 'string') throw new TypeError(`${serializer} must be deserialized from bytes`);
+  return decodeTaggedValues(BINARY_SERIALIZERS[serializer].decode(data), types);
+}
@@ -2,6 +2,19 @@ import 'server-only';
 import { URLPersistence, URLPersistenceOptions } from './persistence/url.js';
 import { OfflinePersistence, OfflinePersistenceOptions } from './persistence/offline.js';
 import { analyzeDataPatterns, explainAutoConfig } from './auto-config.js';
+import type { MigrationMap } from './migrations.js';
+import { getCompressionBackend, setCompressionBackend, streamCompressionBackend } from './compression.js';
+import { loadZlibCompressionBackend } from './zlib-compression.js';
+
+/**
+ * Resolves once compression is set up: with `node:zlib` where the runtime provides it, since it
+ * writes what CompressionStream cannot (brotli) and works where CompressionStream is missing.
+ * Edge runtimes keep the CompressionStream backend. A backend set with `setCompressionBackend`
+ * in the meantime is kept.
+ */
+export const compressionBackendReady: Promise<void> = loadZlibCompressionBackend().then((backend) => {
+  if (backend && getCompressionBackend() === streamCompressionBackend) setCompressionBackend(backend);
+});
 
 export interface PersistenceOptions {
   url?: URLPersistenceOptions;
@@ -14,6 +27,8 @@ export interface CreateNextStateOptions<T, I> {
   updater: (id: I, data: T) => Promise<any>;
   persistence?: PersistenceOptions;
   autoConfig?: boolean; // Enable auto-configuration based on data patterns
+  version?: number; // Current version of the state's shape, recorded in persisted payloads
+  migrations?: MigrationMap; // Upgrades older persisted payloads, keyed by the version they upgrade to
 }
 
 // The return type of our factory
@@ -64,9 +79,10 @@ export function createNextState<T, I>(options: CreateNextStateOptions<T, I>): Ne
     };
   }
 
-  // Create persistence instances
-  const urlPersistence = new URLPersistence(persistenceOptions?.url);
-  const offlinePersistence = new OfflinePersistence(persistenceOptions?.offline);
+  // Create persistence instances; per-layer options may override the shared version and migrations
+  const versioning = { version: options.version, migrations: options.migrations };
+  const urlPersistence = new URLPersistence({ ...versioning, ...persistenceOptions?.url });
+  const offlinePersistence = new OfflinePersistence({ ...versioning, ...persistenceOptions?.offline });
 
   // Simplified Provider for testing
   const Provider = {
@@ -85,4 +101,37 @@ export function createNextState<T, I>(options: CreateNextStateOptions<T, I>): Ne
     Provider,
     use,
   };
-} 
\ No newline at end of file
+}
+
+// Short-link service for the 'short-link' overflow strategy. The file system adapter needs
+// node:fs, so it is published separately as 'slug-store/server/fs'.
+export {
+  createShortLinkService,
+  createShortLinkHandler,
+  createMemoryShortLinkAdapter,
+  ShortLinkError,
+} from './short-link-service.js';
+export type {
+  ShortLinkAdapter,
+  ShortLinkServiceOptions,
+  ShortLinkRouteContext,
+  ShortLinkRouteHandlers,
+} from './short-link-service.js';
+export type { ShortLinkStore } from './short-links.js';
+
+// Compression backends: node:zlib where available, CompressionStream elsewhere, or your own
+export { setCompressionBackend, streamCompressionBackend, supportsCompression } from './compression.js';
+export type { CompressionBackend, BinaryCompressionAlgorithm } from './compression.js';
+export { createZlibCompressionBackend, loadZlibCompressionBackend } from './zlib-compression.js';
+export type { ZlibModule } from './zlib-compression.js';
+
+// Compaction schemas for the `compaction` persistence option
+export { createCompactionSchema } from './compaction.js';
+export type { CompactionSchema, CompactionSchemaOptions } from './compaction.js';
+
+// Key generation and encryption errors for the `encryptionKey` persistence option
+export { generateKey, EncryptionError } from './encryption.js';
+export type { EncryptionErrorCode } from './encryption.js';
+
+// Type handlers for the `types` persistence option
+export type { TypeHandler } from './tagged-values.js';
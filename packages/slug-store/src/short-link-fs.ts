@@ -0,0 +1,37 @@
+// Short Link File System Module
+import 'server-only';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ShortLinkAdapter } from './short-link-service.js';
+
+/**
+ * The file system adapter of the short-link service, published as `slug-store/server/fs`.
+ * It needs `node:fs`, so it is kept out of `slug-store/server`, which also loads in edge runtimes.
+ */
+
+/**
+ * Creates an adapter keeping each payload in a file named after its id.
+ * Suitable for local use and single-server deployments.
+ *
+ * @param directory The directory holding the payloads. Created if it does not exist.
+ * @returns The adapter.
+ */
+export function createFileSystemShortLinkAdapter(directory: string): ShortLinkAdapter {
+  const fileOf = (id: string) => path.join(directory, `${id}.txt`);
+  return {
+    async get(id) {
+      try {
+        return await readFile(fileOf(id), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async set(id, payload) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileOf(id), payload, 'utf8');
+    },
+  };
+}
+
+export type { ShortLinkAdapter } from './short-link-service.js';
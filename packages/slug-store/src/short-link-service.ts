@@ -0,0 +1,207 @@
+// Short Link Service Module
+import { encodeBase64Url } from './base64.js';
+import { SHORT_LINK_ID_PATTERN, type ShortLinkStore } from './short-links.js';
+import { hasPayloadHeader, parsePayload } from './payload.js';
+
+/** The longest payload accepted by default, in characters. */
+const DEFAULT_MAX_PAYLOAD_LENGTH = 100_000;
+
+/**
+ * Where the short-link service keeps payloads.
+ */
+export interface ShortLinkAdapter {
+  /** Returns the payload stored under an id, or null if there is none. */
+  get(id: string): Promise<string | null>;
+  /** Stores a payload under an id, replacing any payload stored before. */
+  set(id: string, payload: string): Promise<void>;
+}
+
+/**
+ * Options for `createShortLinkService`.
+ */
+export interface ShortLinkServiceOptions {
+  /** Where payloads are kept. */
+  adapter: ShortLinkAdapter;
+  /**
+   * The length of generated ids. Ids are a prefix of the payload's SHA-256 hash,
+   * so longer ids make collisions less likely.
+   * @default 12
+   */
+  idLength?: number;
+  /**
+   * The longest payload accepted, in characters. Route handlers stop reading longer bodies.
+   * @default 100000
+   */
+  maxPayloadLength?: number;
+}
+
+/**
+ * The context Next.js passes to route handlers.
+ */
+export interface ShortLinkRouteContext {
+  params?: { id?: string | string[] };
+}
+
+/**
+ * The route handlers created by `createShortLinkHandler`.
+ */
+export interface ShortLinkRouteHandlers {
+  /** Stores the payload in the request body and responds with `{ id }`. */
+  POST(request: Request): Promise<Response>;
+  /** Responds with the payload stored under the id in the route, or 404. */
+  GET(request: Request, context?: ShortLinkRouteContext): Promise<Response>;
+}
+
+/**
+ * Raised when a payload cannot be stored.
+ */
+export class ShortLinkError extends Error {
+  readonly name = 'ShortLinkError';
+
+  constructor(
+    message: string,
+    /** The HTTP status that describes the failure. */
+    readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Creates an adapter keeping payloads in memory. Payloads are lost when the process restarts,
+ * so it is meant for tests and local development.
+ *
+ * @returns The adapter.
+ */
+export function createMemoryShortLinkAdapter(): ShortLinkAdapter {
+  const payloads = new Map<string, string>();
+  return {
+    async get(id) {
+      return payloads.get(id) ?? null;
+    },
+    async set(id, payload) {
+      payloads.set(id, payload);
+    },
+  };
+}
+
+/**
+ * Reads a request body as text, and stops reading once it is longer than `maxLength`
+ * characters, so an oversized body is never held in memory in full.
+ * @throws {ShortLinkError} If the body is too long.
+ */
+async function readBody(request: Request, maxLength: number): Promise<string> {
+  if (!request.body) return '';
+  const reader = request.body.pipeThrough(new TextDecoderStream()).getReader();
+  let body = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return body;
+    body += value;
+    if (body.length > maxLength) {
+      await reader.cancel();
+      throw new ShortLinkError(`The payload is longer than ${maxLength} characters.`, 413);
+    }
+  }
+}
+
+/** Hashes a payload with SHA-256 through Web Crypto, which Node.js and edge runtimes provide. */
+async function hashPayload(payload: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Creates a short-link service. Ids are content-addressed: the same payload always gets
+ * the same id, so sharing a state twice does not store it twice.
+ *
+ * @param options The adapter and limits.
+ * @returns A store saving and loading payloads.
+ * @throws {ShortLinkError} From `save`, when the payload is empty, too long, or not a payload
+ *   written by `encodeState`.
+ */
+export function createShortLinkService(options: ShortLinkServiceOptions): ShortLinkStore {
+  const { adapter, idLength = 12, maxPayloadLength = DEFAULT_MAX_PAYLOAD_LENGTH } = options;
+
+  return {
+    async save(payload) {
+      if (!payload) {
+        throw new ShortLinkError('The payload is empty.', 400);
+      }
+      if (payload.length > maxPayloadLength) {
+        throw new ShortLinkError(`The payload is longer than ${maxPayloadLength} characters.`, 413);
+      }
+      // Only payloads with a readable header are stored, so the service cannot host arbitrary content.
+      if (!hasPayloadHeader(payload)) {
+        throw new ShortLinkError('The payload has no slug-store header.', 400);
+      }
+      try {
+        parsePayload(payload);
+      } catch (error) {
+        throw new ShortLinkError(`The payload header is invalid: ${error instanceof Error ? error.message : 'Unknown error'}`, 400);
+      }
+
+      const id = (await hashPayload(payload)).substring(0, idLength);
+      const existing = await adapter.get(id);
+      if (existing !== null && existing !== payload) {
+        throw new ShortLinkError(`Another payload is already stored under "${id}". Use a longer idLength.`, 409);
+      }
+      if (existing === null) {
+        await adapter.set(id, payload);
+      }
+      return id;
+    },
+    async load(id) {
+      return SHORT_LINK_ID_PATTERN.test(id) ? adapter.get(id) : null;
+    },
+  };
+}
+
+/**
+ * Creates Next.js App Router handlers serving a short-link service to `createShortLinkClient`.
+ * The route must end with an optional `[[...id]]` catch-all segment, so that it accepts both
+ * `POST /api/slug-store/links` and `GET /api/slug-store/links/<id>`.
+ *
+ * @param options The options of the underlying service.
+ * @returns The `GET` and `POST` handlers.
+ *
+ * @example
+ * // app/api/slug-store/links/[[...id]]/route.ts
+ * import { createShortLinkHandler } from 'slug-store/server';
+ * import { createFileSystemShortLinkAdapter } from 'slug-store/server/fs';
+ *
+ * export const { GET, POST } = createShortLinkHandler({
+ *   adapter: createFileSystemShortLinkAdapter('.slug-store/links'),
+ * });
+ */
+export function createShortLinkHandler(options: ShortLinkServiceOptions): ShortLinkRouteHandlers {
+  const service = createShortLinkService(options);
+  const { maxPayloadLength = DEFAULT_MAX_PAYLOAD_LENGTH } = options;
+
+  return {
+    async POST(request) {
+      try {
+        const id = await service.save(await readBody(request, maxPayloadLength));
+        return Response.json({ id }, { status: 201 });
+      } catch (error) {
+        const status = error instanceof ShortLinkError ? error.status : 500;
+        return Response.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status });
+      }
+    },
+    async GET(request, context) {
+      const param = context?.params?.id;
+      const id = (Array.isArray(param) ? param[0] : param) ?? new URL(request.url).searchParams.get('id');
+      const payload = id ? await service.load(id) : null;
+      if (payload === null) {
+        return new Response('Not found', { status: 404 });
+      }
+      return new Response(payload, {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          // Content-addressed payloads never change.
+          'Cache-Control': 'public, max-age=31536000, immutable',
+        },
+      });
+    },
+  };
+}
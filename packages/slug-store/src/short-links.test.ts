@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  createMemoryShortLinkAdapter,
+  createShortLinkHandler,
+  createShortLinkService,
+  ShortLinkError,
+  type ShortLinkAdapter,
+} from './short-link-service.js';
+import { createFileSystemShortLinkAdapter } from './short-link-fs.js';
+import { createShortLinkClient, parseShortLinkReference } from './short-links.js';
+import { URLPersistence } from './persistence/url.js';
+
+const payload = 'v1.j.n..%7B%22view%22%3A%22grid%22%7D';
+
+describe('short links', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    window.history.replaceState({}, '', 'http://localhost:3000/');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createShortLinkService', () => {
+    it('should give the same payload the same id', async () => {
+      const service = createShortLinkService({ adapter: createMemoryShortLinkAdapter() });
+
+      const id = await service.save(payload);
+
+      expect(id).toMatch(/^[A-Za-z0-9_-]{12}$/);
+      expect(await service.save(payload)).toBe(id);
+      expect(await service.save(`${payload}x`)).not.toBe(id);
+      expect(await service.load(id)).toBe(payload);
+    });
+
+    it('should reject empty and oversized payloads', async () => {
+      const service = createShortLinkService({ adapter: createMemoryShortLinkAdapter(), maxPayloadLength: 10 });
+
+      await expect(service.save('')).rejects.toMatchObject({ status: 400 });
+      await expect(service.save('x'.repeat(11))).rejects.toBeInstanceOf(ShortLinkError);
+    });
+
+    it('should only store payloads with a valid header', async () => {
+      const adapter: ShortLinkAdapter = { get: vi.fn().mockResolvedValue(null), set: vi.fn() };
+      const service = createShortLinkService({ adapter });
+
+      for (const body of ['<script>alert(1)</script>', 'c_campaign', 'v1.2.3', 'v1.x.n..body', 'v9.j.n..body']) {
+        await expect(service.save(body)).rejects.toMatchObject({ status: 400 });
+      }
+      expect(adapter.set).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to overwrite a different payload stored under the same id', async () => {
+      const adapter: ShortLinkAdapter = { get: vi.fn().mockResolvedValue('other'), set: vi.fn() };
+      const service = createShortLinkService({ adapter });
+
+      await expect(service.save(payload)).rejects.toMatchObject({ status: 409 });
+      expect(adapter.set).not.toHaveBeenCalled();
+    });
+
+    it('should not look up ids that cannot have been generated', async () => {
+      const adapter: ShortLinkAdapter = { get: vi.fn(), set: vi.fn() };
+      const service = createShortLinkService({ adapter });
+
+      expect(await service.load('../secrets')).toBeNull();
+      expect(adapter.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createFileSystemShortLinkAdapter', () => {
+    it('should store payloads as files', async () => {
+      const directory = await mkdtemp(path.join(tmpdir(), 'slug-store-'));
+      try {
+        const adapter = createFileSystemShortLinkAdapter(path.join(directory, 'links'));
+
+        expect(await adapter.get('missing')).toBeNull();
+        await adapter.set('abc', payload);
+        expect(await adapter.get('abc')).toBe(payload);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createShortLinkHandler', () => {
+    it('should store posted payloads and serve them by id', async () => {
+      const { GET, POST } = createShortLinkHandler({ adapter: createMemoryShortLinkAdapter() });
+
+      const created = await POST(new Request('http://localhost/api/slug-store/links', { method: 'POST', body: payload }));
+      const { id } = await created.json();
+      expect(created.status).toBe(201);
+
+      const found = await GET(new Request(`http://localhost/api/slug-store/links/${id}`), { params: { id: [id] } });
+      expect(found.status).toBe(200);
+      expect(await found.text()).toBe(payload);
+
+      const missing = await GET(new Request('http://localhost/api/slug-store/links?id=missing'));
+      expect(missing.status).toBe(404);
+    });
+
+    it('should respond with 413 to oversized payloads', async () => {
+      const { POST } = createShortLinkHandler({ adapter: createMemoryShortLinkAdapter(), maxPayloadLength: 5 });
+
+      const response = await POST(new Request('http://localhost/api/slug-store/links', { method: 'POST', body: payload }));
+
+      expect(response.status).toBe(413);
+    });
+
+    it('should respond with 400 to bodies that are not payloads', async () => {
+      const { POST } = createShortLinkHandler({ adapter: createMemoryShortLinkAdapter() });
+
+      const response = await POST(new Request('http://localhost/api/slug-store/links', { method: 'POST', body: 'hello' }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should stop reading bodies longer than maxPayloadLength', async () => {
+      const { POST } = createShortLinkHandler({ adapter: createMemoryShortLinkAdapter(), maxPayloadLength: 1000 });
+      const pull = vi.fn((controller: ReadableStreamDefaultController<Uint8Array>) => {
+        controller.enqueue(new TextEncoder().encode('v1.j.n..' + 'a'.repeat(100)));
+      });
+      // An endless body: the handler must give up on it instead of reading it to the end.
+      const body = new ReadableStream<Uint8Array>({ pull });
+
+      const response = await POST(
+        new Request('http://localhost/api/slug-store/links', { method: 'POST', body, duplex: 'half' } as RequestInit)
+      );
+
+      expect(response.status).toBe(413);
+      expect(pull.mock.calls.length).toBeLessThan(20);
+    });
+  });
+
+  describe('createShortLinkClient', () => {
+    it('should talk to the route handler', async () => {
+      const { GET, POST } = createShortLinkHandler({ adapter: createMemoryShortLinkAdapter() });
+      const fetch = vi.fn(async (input: string, init?: RequestInit) => {
+        const request = new Request(new URL(input, 'http://localhost'), init);
+        return request.method === 'POST' ? POST(request) : GET(request, { params: { id: input.split('/').pop() } });
+      });
+      const client = createShortLinkClient({ endpoint: '/links', fetch: fetch as typeof globalThis.fetch });
+
+      const id = await client.save(payload);
+
+      expect(fetch).toHaveBeenCalledWith('/links', expect.objectContaining({ method: 'POST', body: payload }));
+      expect(await client.load(id)).toBe(payload);
+      expect(await client.load('missing')).toBeNull();
+    });
+  });
+
+  describe('URL references', () => {
+    it('should parse references', () => {
+      expect(parseShortLinkReference('@k3Yx9')).toBe('k3Yx9');
+      expect(parseShortLinkReference('k3Yx9')).toBeNull();
+      expect(parseShortLinkReference('@../x')).toBeNull();
+    });
+
+    it('should decode the payload a reference points to', async () => {
+      const shortLinkStore = createShortLinkService({ adapter: createMemoryShortLinkAdapter() });
+      const id = await shortLinkStore.save(decodeURIComponent(payload));
+      const persistence = new URLPersistence({ enabled: true, paramName: 'board', shortLinkStore });
+
+      const result = await persistence.decodeState(`http://localhost:3000/?board=@${id}`);
+
+      expect(result).toEqual({ success: true, state: { view: 'grid' } });
+    });
+
+    it('should report references that cannot be resolved', async () => {
+      const shortLinkStore = { save: vi.fn(), load: vi.fn().mockResolvedValue(null) };
+      const persistence = new URLPersistence({ enabled: true, paramName: 'board', shortLinkStore });
+
+      expect(await persistence.decodeState('http://localhost:3000/?board=@missing')).toMatchObject({
+        success: false,
+        code: 'SHORT_LINK_NOT_FOUND',
+      });
+
+      shortLinkStore.load.mockRejectedValue(new Error('offline'));
+      expect(await persistence.decodeState('http://localhost:3000/?board=@missing')).toMatchObject({
+        success: false,
+        error: 'offline',
+        code: 'SHORT_LINK_FAILED',
+      });
+    });
+  });
+});
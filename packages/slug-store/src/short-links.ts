@@ -0,0 +1,96 @@
+// Short Links Module
+/**
+ * Stores URL payloads that are too long to share, under a short id.
+ * URLs refer to a stored payload as `?key=@<id>`.
+ */
+export interface ShortLinkStore {
+  /**
+   * Stores a payload.
+   * @param payload The encoded payload, as written to the URL by `encodeState`.
+   * @returns The id the payload can be loaded with.
+   */
+  save(payload: string): Promise<string>;
+  /**
+   * Loads a stored payload.
+   * @param id The id returned by `save`.
+   * @returns The payload, or null if no payload is stored under the id.
+   */
+  load(id: string): Promise<string | null>;
+}
+
+/**
+ * Options for `createShortLinkClient`.
+ */
+export interface ShortLinkClientOptions {
+  /**
+   * The URL of the route created with `createShortLinkHandler`.
+   * @default '/api/slug-store/links'
+   */
+  endpoint?: string;
+  /** The fetch implementation to use. @default globalThis.fetch */
+  fetch?: typeof fetch;
+}
+
+/** The route the short-link client talks to when no endpoint is configured. */
+export const DEFAULT_SHORT_LINK_ENDPOINT = '/api/slug-store/links';
+
+/** Marks a URL parameter value as a reference to a stored payload. */
+export const SHORT_LINK_PREFIX = '@';
+
+/** Matches the ids of stored payloads. */
+export const SHORT_LINK_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Reads the id from a short-link reference such as `@k3Yx9`.
+ *
+ * @param value The raw URL parameter value.
+ * @returns The id, or null if the value is not a reference.
+ */
+export function parseShortLinkReference(value: string): string | null {
+  if (!value.startsWith(SHORT_LINK_PREFIX)) return null;
+  const id = value.substring(SHORT_LINK_PREFIX.length);
+  return SHORT_LINK_ID_PATTERN.test(id) ? id : null;
+}
+
+/**
+ * Creates a short-link store that talks to a route created with `createShortLinkHandler`
+ * from `slug-store/server`.
+ *
+ * @param options The endpoint of the route.
+ * @returns The store.
+ *
+ * @example
+ * const [board, setBoard] = useSlugStore('board', initialBoard, {
+ *   url: true,
+ *   maxUrlLength: 2000,
+ *   overflow: 'short-link',
+ *   shortLinkStore: createShortLinkClient(),
+ * });
+ */
+export function createShortLinkClient(options: ShortLinkClientOptions = {}): ShortLinkStore {
+  const { endpoint = DEFAULT_SHORT_LINK_ENDPOINT } = options;
+  const request = (input: string, init?: RequestInit) => (options.fetch ?? fetch)(input, init);
+
+  return {
+    async save(payload) {
+      const response = await request(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: payload,
+      });
+      if (!response.ok) {
+        throw new Error(`Could not store the short link: ${response.status} ${response.statusText}`);
+      }
+      const { id } = await response.json();
+      return id;
+    },
+    async load(id) {
+      const response = await request(`${endpoint}/${encodeURIComponent(id)}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Could not load the short link "${id}": ${response.status} ${response.statusText}`);
+      }
+      return response.text();
+    },
+  };
+}
@@ -0,0 +1,391 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSlugStore, SlugStorePersistenceError } from './store.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+import { supportsBroadcastChannel } from './sync.js';
+
+const encodeURL = async (key: string, state: unknown) => {
+  const persistence = new URLPersistence({ enabled: true, paramName: key, compress: false });
+  const { url } = await persistence.encodeState(state, 'http://localhost:3000/');
+  return url!;
+};
+
+const decodeURL = async <T>(key: string) => {
+  const persistence = new URLPersistence({ enabled: true, paramName: key });
+  const { state } = await persistence.decodeState<T>();
+  return state;
+};
+
+describe('createSlugStore', () => {
+  beforeEach(() => {
+    window.history.replaceState({}, '', 'http://localhost:3000/');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // The IndexedDB mock in test-setup never opens, so offline storage is stubbed out.
+    vi.spyOn(OfflinePersistence.prototype, 'loadState').mockResolvedValue({ success: true });
+    vi.spyOn(OfflinePersistence.prototype, 'saveState').mockResolvedValue({ success: true });
+    vi.spyOn(OfflinePersistence.prototype, 'deleteState').mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should get, set and notify subscribers with the previous state', () => {
+    const store = createSlugStore('counter', 0);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.set(1);
+    store.set((count) => count + 1);
+
+    expect(store.get()).toBe(2);
+    expect(listener.mock.calls).toEqual([[1, 0], [2, 1]]);
+  });
+
+  it('should stop notifying a listener once unsubscribed', () => {
+    const store = createSlugStore('counter', 0);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    unsubscribe();
+    store.set(1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should hydrate from the URL', async () => {
+    window.history.replaceState({}, '', await encodeURL('filters', { view: 'list' }));
+    const store = createSlugStore('filters', { view: 'grid' }, { url: true });
+
+    await store.hydrate();
+
+    expect(store.get()).toEqual({ view: 'list' });
+    store.destroy();
+  });
+
+  it('should hydrate from offline storage when the URL has no state', async () => {
+    vi.mocked(OfflinePersistence.prototype.loadState).mockResolvedValue({ success: true, data: { view: 'list' } });
+    const store = createSlugStore('filters', { view: 'grid' }, { offline: true });
+
+    await store.hydrate();
+
+    expect(store.get()).toEqual({ view: 'list' });
+    store.destroy();
+  });
+
+  it('should not persist writes made before hydration', async () => {
+    const store = createSlugStore('filters', { view: 'grid' }, { url: true });
+
+    store.set({ view: 'list' });
+    await store.flush();
+
+    expect(window.location.search).toBe('');
+  });
+
+  it('should persist writes to the URL after hydration', async () => {
+    const store = createSlugStore('filters', { view: 'grid' }, { url: true });
+    await store.hydrate();
+
+    store.set({ view: 'list' });
+    await store.flush();
+
+    expect(await decodeURL('filters')).toEqual({ view: 'list' });
+    store.destroy();
+  });
+
+  it('should only write urlFields to the URL and merge them over offline state on load', async () => {
+    const fullState = { view: 'list', items: ['Starship'], ui: { sidebarOpen: true } };
+    const store = createSlugStore('wishlist', { view: 'grid', items: [] as string[], ui: { sidebarOpen: false } }, {
+      hybrid: true,
+      urlFields: ['view'],
+    });
+    await store.hydrate();
+
+    store.set(fullState);
+    await store.flush();
+
+    expect(await decodeURL('wishlist')).toEqual({ view: 'list' });
+    expect(OfflinePersistence.prototype.saveState).toHaveBeenCalledWith('wishlist', fullState, expect.any(Number));
+    store.destroy();
+
+    // A shared link carries only the view; the rest comes from the recipient's offline storage.
+    window.history.replaceState({}, '', await encodeURL('wishlist', { view: 'table' }));
+    vi.mocked(OfflinePersistence.prototype.loadState).mockResolvedValue({ success: true, data: fullState });
+    const reloaded = createSlugStore('wishlist', { view: 'grid', items: [] as string[], ui: { sidebarOpen: false } }, {
+      hybrid: true,
+      omitFromUrl: ['items', 'ui'],
+    });
+    await reloaded.hydrate();
+
+    expect(reloaded.get()).toEqual({ ...fullState, view: 'table' });
+    expect(reloaded.getStatus().source).toBe('url');
+    reloaded.destroy();
+  });
+
+  it('should persist readable params with the flat codec and coerce them on load', async () => {
+    const initialState = { view: 'grid', page: 1, items: [] as string[] };
+    const store = createSlugStore('wishlist', initialState, { url: true, codec: 'flat', omitFromUrl: ['items'] });
+    await store.hydrate();
+
+    store.set({ view: 'list', page: 2, items: ['Starship'] });
+    await store.flush();
+    expect(window.location.search).toBe('?view=list&page=2');
+    store.destroy();
+
+    const reloaded = createSlugStore('wishlist', initialState, { url: true, codec: 'flat', omitFromUrl: ['items'] });
+    await reloaded.hydrate();
+    expect(reloaded.get()).toEqual({ view: 'list', page: 2, items: [] });
+    reloaded.destroy();
+  });
+
+  it('should keep state that does not fit maxUrlLength offline and report the overflow', async () => {
+    const onOverflow = vi.fn();
+    const store = createSlugStore('notes', { view: 'grid', text: '' }, { url: true, maxUrlLength: 200, onOverflow });
+    await store.hydrate();
+
+    // Varied enough that even compressed it does not fit.
+    const text = Array.from({ length: 200 }, (_, i) => i * i).join(' ');
+    store.set({ view: 'list', text });
+    await store.flush();
+
+    expect(window.location.search).toBe('');
+    expect(OfflinePersistence.prototype.saveState).toHaveBeenCalledWith('notes', { view: 'list', text }, expect.any(Number));
+    expect(onOverflow).toHaveBeenCalledWith(expect.objectContaining({
+      key: 'notes', maxUrlLength: 200, url: null, strategy: 'offline-only',
+    }));
+    expect(onOverflow.mock.calls[0]?.[0].length).toBeGreaterThan(200);
+
+    store.set({ view: 'table', text: '' });
+    await store.flush();
+    expect(await decodeURL('notes')).toEqual({ view: 'table', text: '' });
+    expect(onOverflow).toHaveBeenCalledOnce();
+    store.destroy();
+  });
+
+  it('should restore fields dropped from the URL from offline storage on reload', async () => {
+    const initialState = { view: 'grid', notes: '' };
+    const options = { hybrid: true, maxUrlLength: 150, optionalUrlFields: ['notes'] };
+    const store = createSlugStore('board', initialState, options);
+    await store.hydrate();
+
+    const notes = Array.from({ length: 100 }, (_, i) => i * i).join(' ');
+    store.set({ view: 'list', notes });
+    await store.flush();
+    store.destroy();
+    expect(await decodeURL('board')).toEqual({ view: 'list' });
+
+    const [, saved] = vi.mocked(OfflinePersistence.prototype.saveState).mock.lastCall!;
+    vi.mocked(OfflinePersistence.prototype.loadState).mockResolvedValue({ success: true, data: saved });
+    const reloaded = createSlugStore('board', initialState, options);
+    await reloaded.hydrate();
+    expect(reloaded.get()).toEqual({ view: 'list', notes });
+    reloaded.destroy();
+
+    vi.mocked(OfflinePersistence.prototype.loadState).mockResolvedValue({ success: true });
+    const shared = createSlugStore('board', initialState, options);
+    await shared.hydrate();
+    expect(shared.get()).toEqual({ view: 'list', notes: '' });
+    shared.destroy();
+  });
+
+  it('should load and persist unencrypted states without Web Crypto', async () => {
+    vi.stubGlobal('crypto', undefined);
+    const onError = vi.fn();
+    window.history.replaceState({}, '', await encodeURL('filters', { view: 'list' }));
+    const store = createSlugStore('filters', { view: 'grid' }, { url: true, offline: true, onError });
+    await store.hydrate();
+    expect(store.get()).toEqual({ view: 'list' });
+
+    store.set({ view: 'table' });
+    await store.flush();
+
+    expect(await decodeURL('filters')).toEqual({ view: 'table' });
+    expect(OfflinePersistence.prototype.saveState).toHaveBeenCalledWith('filters', { view: 'table' }, expect.any(Number));
+    expect(localStorage.setItem).not.toHaveBeenCalledWith('slug-store-encryption-key', expect.anything());
+    expect(onError).not.toHaveBeenCalled();
+    store.destroy();
+  });
+
+  it('should still persist the state when the short-link store cannot save it', async () => {
+    const onError = vi.fn();
+    const shortLinkStore = { save: vi.fn().mockRejectedValue(new Error('Failed to fetch')), load: vi.fn() };
+    const store = createSlugStore('notes', { text: '' }, {
+      url: true,
+      offline: true,
+      maxUrlLength: 100,
+      overflow: ['short-link', 'offline-only'],
+      shortLinkStore,
+      onError,
+    });
+    await store.hydrate();
+
+    const text = Array.from({ length: 100 }, (_, i) => i * i).join(' ');
+    store.set({ text });
+    await store.flush();
+
+    expect(shortLinkStore.save).toHaveBeenCalledOnce();
+    expect(OfflinePersistence.prototype.saveState).toHaveBeenCalledWith('notes', { text }, expect.any(Number));
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ source: 'url', operation: 'save', reason: 'Failed to fetch' }));
+    expect(window.location.search).toBe('');
+    store.destroy();
+  });
+
+  it('should restore the state on Back/Forward navigation until destroyed', async () => {
+    const store = createSlugStore('filters', { view: 'grid' }, { url: true });
+    await store.hydrate();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    window.history.replaceState({}, '', await encodeURL('filters', { view: 'list' }));
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    await vi.waitFor(() => expect(store.get()).toEqual({ view: 'list' }));
+
+    store.destroy();
+    window.history.replaceState({}, '', await encodeURL('filters', { view: 'table' }));
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(store.get()).toEqual({ view: 'list' });
+  });
+
+  describe('status', () => {
+    it('should be loading until hydrated, then report the URL as source', async () => {
+      window.history.replaceState({}, '', await encodeURL('filters', { view: 'list' }));
+      const store = createSlugStore('filters', { view: 'grid' }, { url: true });
+      expect(store.getStatus()).toEqual({ status: 'loading', isLoading: true, source: 'initial', lastPersistedAt: null });
+
+      await store.hydrate();
+
+      expect(store.getStatus()).toMatchObject({ status: 'ready', isLoading: false, source: 'url' });
+      store.destroy();
+    });
+
+    it('should report offline state with its last write time', async () => {
+      vi.mocked(OfflinePersistence.prototype.loadState).mockResolvedValue({ success: true, data: 'saved', updatedAt: 1234 });
+      const store = createSlugStore('draft', '', { offline: true });
+
+      await store.hydrate();
+
+      expect(store.getStatus()).toMatchObject({ status: 'ready', source: 'offline', lastPersistedAt: 1234 });
+      store.destroy();
+    });
+
+    it('should report initial state when nothing was persisted', async () => {
+      const store = createSlugStore('draft', '', { offline: true });
+      await store.hydrate();
+      expect(store.getStatus()).toMatchObject({ status: 'ready', source: 'initial' });
+    });
+
+    it('should report URLs that cannot be decoded to onError and fall back', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      window.history.replaceState({}, '', 'http://localhost:3000/?filters=c_%25%25%25');
+      const onError = vi.fn();
+      const store = createSlugStore('filters', { view: 'grid' }, { url: true, onError });
+      const statusListener = vi.fn();
+      store.subscribeStatus(statusListener);
+
+      await store.hydrate();
+
+      expect(onError).toHaveBeenCalledOnce();
+      const error = onError.mock.calls[0]?.[0];
+      expect(error).toBeInstanceOf(SlugStorePersistenceError);
+      expect(error).toMatchObject({ key: 'filters', source: 'url', operation: 'load' });
+      expect(store.get()).toEqual({ view: 'grid' });
+      expect(store.getStatus()).toMatchObject({ status: 'error', source: 'initial', error });
+      expect(statusListener).toHaveBeenLastCalledWith(store.getStatus());
+      store.destroy();
+    });
+
+    it('should report failed writes and recover on the next successful write', async () => {
+      vi.mocked(OfflinePersistence.prototype.saveState)
+        .mockResolvedValueOnce({ success: false, error: 'QuotaExceededError' })
+        .mockResolvedValue({ success: true });
+      const onError = vi.fn();
+      const store = createSlugStore('draft', '', { offline: true, onError });
+      await store.hydrate();
+
+      store.set('too large');
+      await store.flush();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ source: 'offline', operation: 'save' }));
+      expect(store.getStatus().status).toBe('error');
+
+      store.set('small');
+      await store.flush();
+      expect(store.getStatus()).toMatchObject({ status: 'ready', error: undefined });
+      expect(store.getStatus().lastPersistedAt).toEqual(expect.any(Number));
+    });
+  });
+
+  it('should reset to the initial state and persist it', async () => {
+    const store = createSlugStore('filters', { view: 'grid' }, { url: true });
+    await store.hydrate();
+    store.set({ view: 'list' });
+
+    store.reset();
+    await store.flush();
+
+    expect(store.get()).toEqual({ view: 'grid' });
+    expect(await decodeURL('filters')).toEqual({ view: 'grid' });
+    store.destroy();
+  });
+
+  it('should clear the state from the URL and offline storage without writing it back', async () => {
+    const store = createSlugStore('filters', { view: 'grid' }, { hybrid: true, debounceMs: 10_000 });
+    await store.hydrate();
+    store.set({ view: 'list' });
+    await store.flush();
+    store.set({ view: 'table' });
+
+    await store.clear();
+    await store.flush();
+
+    expect(store.get()).toEqual({ view: 'grid' });
+    expect(window.location.search).toBe('');
+    expect(OfflinePersistence.prototype.deleteState).toHaveBeenCalledWith('filters');
+    expect(store.getStatus()).toMatchObject({ source: 'initial', lastPersistedAt: null });
+    store.destroy();
+  });
+
+  it('should restore hash state on Back/Forward navigation', async () => {
+    const store = createSlugStore('filters', { view: 'grid' }, { url: true, location: 'hash' });
+    await store.hydrate();
+    store.set({ view: 'list' });
+    await store.flush();
+    expect(window.location.hash).toContain('filters=');
+    expect(window.location.search).toBe('');
+
+    window.history.replaceState({}, '', 'http://localhost:3000/');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    await vi.waitFor(() => expect(store.get()).toEqual({ view: 'grid' }));
+    store.destroy();
+  });
+
+  it('should flush pending debounced writes on destroy', async () => {
+    const store = createSlugStore('search', '', { url: true, debounceMs: 10_000 });
+    await store.hydrate();
+
+    store.set('final edit');
+    store.destroy();
+
+    await vi.waitFor(async () => expect(await decodeURL('search')).toBe('final edit'));
+  });
+
+  it.runIf(supportsBroadcastChannel())('should keep a pending local edit over older updates from other tabs', async () => {
+    const store = createSlugStore('cart', { items: 0 }, { offline: true, sync: 'tabs', debounceMs: 10_000 });
+    await store.hydrate();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    vi.spyOn(Date, 'now').mockReturnValue(2000);
+    store.set({ items: 1 });
+
+    const otherTab = new BroadcastChannel('slug-store:cart');
+    otherTab.postMessage({ key: 'cart', state: { items: 5 }, updatedAt: 1500, tabId: 'other-tab' });
+    otherTab.postMessage({ key: 'cart', state: { items: 9 }, updatedAt: 2500, tabId: 'other-tab' });
+    await vi.waitFor(() => expect(store.get()).toEqual({ items: 9 }));
+
+    expect(listener.mock.calls.map(([state]) => state)).toEqual([{ items: 1 }, { items: 9 }]);
+    otherTab.close();
+    store.destroy();
+  });
+});
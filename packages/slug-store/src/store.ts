@@ -0,0 +1,989 @@
+// Vanilla Store Module
+import { analyzeDataPatterns, explainAutoConfig, type AutoConfigAnalysisResult } from './auto-config.js';
+import {
+  URLPersistence,
+  type URLPersistenceOptions,
+  type HistoryMode,
+  type URLDecodeErrorCode,
+  type URLDecodingMode,
+  type URLLocation,
+} from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+import { createPersistScheduler, onPageHide, type PersistScheduler } from './scheduler.js';
+import { createTabSync, isNewerUpdate, supportsBroadcastChannel, TAB_ID } from './sync.js';
+import type { MigrationMap } from './migrations.js';
+import type { SerializerName } from './serializers.js';
+import type { TypeHandler } from './tagged-values.js';
+import { createCompactionSchema, type CompactionSchema } from './compaction.js';
+import { hasUrlProjection, mergeState, projectUrlState, type StateProjection } from './projection.js';
+import { createFlatCodec, type URLCodec } from './codec.js';
+import { fitUrlBudget, type UrlBudgetResult, type UrlOverflowEvent, type UrlOverflowStrategy } from './overflow.js';
+import { createShortLinkClient, type ShortLinkStore } from './short-links.js';
+import {
+  validateState,
+  SlugStoreValidationError,
+  type SlugStoreSchema,
+  type StateSource,
+} from './validation.js';
+
+// --- Constants ---
+// Define a constant for the key used to store the encryption key in localStorage.
+const ENCRYPTION_KEY_STORAGE_KEY = 'slug-store-encryption-key';
+
+/**
+ * Options that change where or how the state is written.
+ * Changing one of them through `setOptions` re-persists the current state.
+ */
+const PERSISTENCE_OPTION_KEYS = [
+  'url', 'offline', 'hybrid', 'autoConfig', 'encryptionKey', 'encryptionKeyId', 'allowInsecureFallback', 'version',
+  'maxUrlLength', 'serializer', 'encodeAs', 'location', 'pathTemplate', 'decoding', 'codec', 'urlFields', 'omitFromUrl',
+  'compaction', 'overflow',
+] as const;
+
+/** The overflow strategies used when `maxUrlLength` is set without `overflow`. */
+const DEFAULT_OVERFLOW: UrlOverflowStrategy[] = ['drop-optional', 'compress', 'offline-only'];
+
+// --- Types ---
+/**
+ * Configuration options for a slug store and the useSlugStore hook.
+ */
+export interface SlugStoreOptions<T = unknown> {
+  /** 
+   * Persist state in the URL's query parameters.
+   * Ideal for small, shareable state like filters or search queries.
+   * @default false
+   */
+  url?: boolean;
+  /** 
+   * Persist state in the browser's offline storage (IndexedDB with a LocalStorage fallback).
+   * Ideal for larger state or data that should survive page refreshes.
+   * @default false
+   */
+  offline?: boolean;
+  /**
+   * Persist state to both URL and offline storage.
+   * This provides the robustness of offline storage with the shareability of URL persistence.
+   * Overrides `url`, `offline`, and `autoConfig` flags.
+   * @default false
+   */
+  hybrid?: boolean;
+  /** 
+   * When true, automatically determines the best persistence strategy 
+   * based on data size and content analysis. Overrides `url` and `offline` flags.
+   * @default false
+   */
+  autoConfig?: boolean;
+  /**
+   * A custom AES key: 128, 192 or 256 bits in Base64, e.g. from `generateKey()`.
+   * If not provided, a key will be generated for auto-config if encryption is deemed necessary.
+   */
+  encryptionKey?: string;
+  /**
+   * An id for `encryptionKey`, recorded in encrypted payloads. Change it together with the key,
+   * so that state written with the previous key is reported as such instead of failing to decrypt.
+   * @default '0'
+   */
+  encryptionKeyId?: string;
+  /**
+   * Encryption uses AES-GCM through Web Crypto, and fails where Web Crypto is not available.
+   * `true` falls back to repeating-key XOR there instead, which does not keep the state secret,
+   * and reads states written with it.
+   * @default false
+   */
+  allowInsecureFallback?: boolean;
+  /**
+   * How the state is written to the URL and offline storage: 'json', or the more compact
+   * binary 'msgpack' or 'cbor'. Payloads record their serializer, so payloads written
+   * with another serializer stay readable.
+   * @default 'json'
+   */
+  serializer?: SerializerName;
+  /**
+   * Handlers for types that are not built in, such as an app's own classes. Dates, Maps,
+   * Sets, BigInts and undefined survive share links and reloads without one.
+   * @default []
+   */
+  types?: TypeHandler[];
+  /**
+   * 'diff' writes only what differs from `initialState` to the URL, with a hash of it, so
+   * links to states close to the initial state stay short. Links written against another
+   * `initialState` are reported with the 'BASELINE_MISMATCH' code. Only used with the 'json' codec.
+   * @default 'state'
+   */
+  encodeAs?: 'state' | 'diff';
+  /**
+   * Writes the URL state without its property names, and known strings as numbers, which is
+   * much shorter than generic compression for small states. `true` derives the schema from
+   * `initialState`; pass a schema from `createCompactionSchema` to list the possible values
+   * of enum-like strings. Links compacted with another schema are reported with the
+   * 'SCHEMA_MISMATCH' code. Only used with the 'json' codec.
+   * @default false
+   */
+  compaction?: boolean | CompactionSchema;
+  /**
+   * In development environments, this logs the auto-config analysis and decisions to the console.
+   * @default true
+   */
+  debug?: boolean;
+  /**
+   * Waits until the state has not changed for this many milliseconds before persisting it.
+   * Useful for text inputs bound to slug state. Pending writes are flushed when the page is hidden.
+   * @default 0
+   */
+  debounceMs?: number;
+  /**
+   * Persists the state at most once per this many milliseconds. Combined with `debounceMs`,
+   * it caps how long continuous updates can postpone a write.
+   * @default 0
+   */
+  throttleMs?: number;
+  /**
+   * How URL updates are recorded in the browser history.
+   * 'replace' overwrites the current entry, 'push' creates a new entry the user can go Back to,
+   * and a function decides per update, e.g. push when the view changes but replace on keystrokes.
+   * @default 'replace'
+   */
+  history?: HistoryMode | ((prevState: T, nextState: T) => HistoryMode);
+  /**
+   * Synchronises the state between open tabs of the same origin.
+   * 'tabs' broadcasts every update over BroadcastChannel. Where it is unavailable, offline state is
+   * kept in localStorage and propagated through the `storage` event instead.
+   * Concurrent updates are resolved last-writer-wins, by timestamp.
+   * @default false
+   */
+  sync?: 'tabs' | false;
+  /**
+   * Only these fields are written to the URL: dot-separated key paths, or a function
+   * returning the part of the state to share. The full state is still written to offline storage,
+   * and on load the URL fields are merged over it, with the URL winning.
+   */
+  urlFields?: StateProjection<T>;
+  /**
+   * Dot-separated key paths left out of the URL, e.g. UI-only or bulky fields.
+   * Like `urlFields`, the full state is still written to offline storage.
+   */
+  omitFromUrl?: string[];
+  /**
+   * How the state is written to the URL.
+   * 'json' writes one compact, optionally compressed and encrypted parameter named after the key.
+   * 'flat' writes each primitive field as its own readable parameter (`?view=grid&tags=a&tags=b`),
+   * coercing values back to the types of `initialState` on load. A custom `URLCodec` can also be passed.
+   * @default 'json'
+   */
+  codec?: 'json' | 'flat' | URLCodec;
+  /**
+   * Which part of the URL holds the state: 'search' (query parameters), 'hash' (the fragment,
+   * which is never sent to the server) or 'path' (a path segment described by `pathTemplate`).
+   * @default 'search'
+   */
+  location?: URLLocation;
+  /**
+   * The route of the state when `location` is 'path', with a `:state` placeholder, e.g. `/board/:state`.
+   */
+  pathTemplate?: string;
+  /**
+   * How forgiving decoding the URL is. 'strict' only accepts links produced by Slug Store;
+   * 'lenient' also repairs links mangled by other tools, which can turn a tampered link into
+   * different valid state. Defaults to 'strict' with an `encryptionKey` and 'lenient' otherwise.
+   */
+  decoding?: URLDecodingMode;
+  /**
+   * The maximum length of the URL, in characters, checked against the encoded URL.
+   * Browsers, proxies and messaging apps truncate long links; around 2000 characters is widely safe.
+   * Longer URLs are shortened with the `overflow` strategies.
+   */
+  maxUrlLength?: number;
+  /**
+   * What to do when the URL is longer than `maxUrlLength`. Strategies are tried in order until
+   * the URL fits: 'drop-optional' leaves out `optionalUrlFields`, 'compress' switches to the
+   * strongest compression, 'offline-only' keeps the state out of the URL and in offline storage,
+   * and 'short-link' stores the payload in `shortLinkStore` and writes a `@<id>` reference.
+   * If none fits, the long URL is written.
+   * @default ['drop-optional', 'compress', 'offline-only']
+   */
+  overflow?: UrlOverflowStrategy | UrlOverflowStrategy[];
+  /**
+   * Dot-separated key paths the 'drop-optional' strategy may leave out of the URL, least important first.
+   * When set, the URL is merged over the offline state (or `initialState`) on load, so fields left
+   * out come from there.
+   */
+  optionalUrlFields?: string[];
+  /**
+   * Where the 'short-link' overflow strategy stores payloads, and where `@<id>` references
+   * in the URL are resolved.
+   * @default createShortLinkClient()
+   */
+  shortLinkStore?: ShortLinkStore;
+  /**
+   * Called when the encoded URL is longer than `maxUrlLength`, with the strategy that made it fit.
+   * When omitted, URLs that still do not fit are logged with `console.warn`.
+   */
+  onOverflow?: (event: UrlOverflowEvent) => void;
+  /**
+   * The version of the state's shape. Persisted payloads record it, and payloads from
+   * the URL or offline storage with an older version are upgraded with `migrations`.
+   * Payloads written before a version was set are treated as version 0.
+   */
+  version?: number;
+  /**
+   * Migrations keyed by the version they upgrade to, applied step by step.
+   * `migrations[2]` receives a version 1 state and returns a version 2 state.
+   */
+  migrations?: MigrationMap;
+  /**
+   * Validates state decoded from the URL or offline storage before it reaches the component.
+   * Accepts a validator function or a Standard-Schema-compatible object (Zod, Valibot, ArkType, ...).
+   * Invalid state is replaced by the result of `onInvalid`, or by `initialState`.
+   */
+  schema?: SlugStoreSchema<T>;
+  /**
+   * Repairs state that failed `schema` validation.
+   * Return a replacement state, or `undefined` to fall back to `initialState`.
+   */
+  onInvalid?: (error: SlugStoreValidationError) => T | undefined;
+  /**
+   * Called whenever loaded state fails `schema` validation.
+   * When omitted, validation failures are logged with `console.warn`.
+   */
+  onValidationError?: (error: SlugStoreValidationError) => void;
+  /**
+   * Called when loading or persisting the state fails, e.g. on a corrupted URL, a wrong
+   * encryption key or a full storage quota. The error is also exposed through the store's status.
+   * When omitted, errors are logged with `console.error`.
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Where the current state came from: a persistence layer, or `initialState` when nothing was restored.
+ */
+export type SlugStoreStateSource = StateSource | 'initial';
+
+/**
+ * The load and persistence status of a slug store.
+ */
+export interface SlugStoreStatus {
+  /**
+   * 'loading' until the persisted state has been loaded, then 'ready',
+   * or 'error' if the last load or write failed.
+   */
+  status: 'loading' | 'ready' | 'error';
+  /** Shorthand for `status === 'loading'`, matching the metadata of `NextState.use`. */
+  isLoading: boolean;
+  /** Where the current state came from. */
+  source: SlugStoreStateSource;
+  /** The error of the last failed load or write, if any. */
+  error?: Error;
+  /** When the state was last written to (or loaded from) storage, in milliseconds since the epoch. */
+  lastPersistedAt: number | null;
+}
+
+/**
+ * An error raised when a slug store fails to load or persist its state.
+ */
+export class SlugStorePersistenceError extends Error {
+  readonly name = 'SlugStorePersistenceError';
+
+  constructor(
+    /** The slug-store key whose state could not be loaded or persisted. */
+    readonly key: string,
+    /** The persistence layer that failed. */
+    readonly source: StateSource,
+    /** Whether the state was being loaded or saved. */
+    readonly operation: 'load' | 'save',
+    /** The reason reported by the persistence layer. */
+    readonly reason: string,
+    /** Why decoding the URL failed, when loading from the URL. */
+    readonly code?: URLDecodeErrorCode
+  ) {
+    super(`Could not ${operation} state for "${key}" ${operation === 'load' ? 'from' : 'to'} ${source}: ${reason}`);
+  }
+}
+
+/**
+ * Checks state loaded from a persistence layer against the configured schema.
+ * Returns the validated (and possibly transformed) state, the repaired state from
+ * `onInvalid`, or the given fallback when the state is invalid and cannot be repaired.
+ */
+async function checkLoadedState<T>(
+  key: string,
+  value: unknown,
+  source: StateSource,
+  fallback: T,
+  options: Pick<SlugStoreOptions<T>, 'schema' | 'onInvalid' | 'onValidationError'>
+): Promise<T> {
+  if (!options.schema) return value as T;
+
+  const result = await validateState(options.schema, value);
+  if (result.success) return result.value;
+
+  const error = new SlugStoreValidationError(key, source, value, result.issues);
+  if (options.onValidationError) {
+    options.onValidationError(error);
+  } else {
+    console.warn(error.message);
+  }
+
+  const repaired = options.onInvalid?.(error);
+  return repaired !== undefined ? repaired : fallback;
+}
+
+/**
+ * Called after every state change with the new and the previous state.
+ */
+export type SlugStoreListener<T> = (state: T, prevState: T) => void;
+
+/**
+ * Called after every status change with the new status.
+ */
+export type SlugStoreStatusListener = (status: SlugStoreStatus) => void;
+
+/**
+ * A framework-agnostic store that keeps a state in memory and persists it
+ * to the URL and/or offline storage. It works in browsers, web workers and plain scripts;
+ * browser-only features are skipped where the APIs they need are missing.
+ */
+export interface SlugStore<T> {
+  /** The key identifying the state in storage and URL parameters. */
+  readonly key: string;
+  /** Returns the current state. */
+  get(): T;
+  /**
+   * Updates the state, notifies subscribers and schedules a persistence write.
+   * Accepts a new state or a function that receives the previous state.
+   */
+  set(newState: T | ((prevState: T) => T)): void;
+  /**
+   * Registers a listener called after every state change.
+   * @returns A function that removes the listener.
+   */
+  subscribe(listener: SlugStoreListener<T>): () => void;
+  /** Returns the current load and persistence status. The object is replaced on every change. */
+  getStatus(): SlugStoreStatus;
+  /**
+   * Registers a listener called after every status change.
+   * @returns A function that removes the listener.
+   */
+  subscribeStatus(listener: SlugStoreStatusListener): () => void;
+  /**
+   * Loads the persisted state (URL first, then offline storage) and starts listening for
+   * Back/Forward navigation, updates from other tabs and the page being hidden.
+   * The state is only loaded once; later calls just resume listening after `destroy`.
+   * Writes are not persisted until hydration has finished.
+   */
+  hydrate(): Promise<void>;
+  /** Returns the store's current options. */
+  getOptions(): SlugStoreOptions<T>;
+  /**
+   * Replaces the store's options. Changing where or how the state is written re-persists it.
+   */
+  setOptions(options: SlugStoreOptions<T>): void;
+  /** Writes any pending state immediately. */
+  flush(): Promise<void>;
+  /** Sets the state back to `initialState` and persists it like any other update. */
+  reset(): void;
+  /**
+   * Sets the state back to `initialState` and removes it from every persistence layer:
+   * the URL parameter and the offline entry. Pending writes are dropped.
+   * Later updates are persisted again as usual.
+   */
+  clear(): Promise<void>;
+  /**
+   * Flushes pending writes and stops listening to the browser.
+   * The state stays readable and writable in memory, and `hydrate` resumes listening.
+   */
+  destroy(): void;
+}
+
+/**
+ * Creates a framework-agnostic slug store.
+ * This is the engine behind `useSlugStore`, usable from web workers, plain scripts or other frameworks.
+ *
+ * @template T The type of the state.
+ * @param key A unique key to identify the state in storage and URL parameters.
+ * @param initialState The initial value of the state if none is found in storage.
+ * @param options Configuration for persistence and behavior.
+ * @returns The store.
+ *
+ * @example
+ * const store = createSlugStore('filters', { view: 'grid' }, { url: true });
+ * store.subscribe((filters) => render(filters));
+ * await store.hydrate();
+ * store.set((filters) => ({ ...filters, view: 'list' }));
+ */
+export function createSlugStore<T>(
+  key: string,
+  initialState: T,
+  options: SlugStoreOptions<T> = {}
+): SlugStore<T> {
+  let currentOptions = options;
+  let state = initialState;
+  const listeners = new Set<SlugStoreListener<T>>();
+  let status: SlugStoreStatus = { status: 'loading', isLoading: true, source: 'initial', lastPersistedAt: null };
+  const statusListeners = new Set<SlugStoreStatusListener>();
+
+  /** The pending or finished load from persistence. */
+  let hydration: Promise<void> | null = null;
+  /** Whether the persisted state has been loaded; writes are skipped until then. */
+  let isHydrated = false;
+  /** Removes the browser listeners added by `hydrate`. */
+  let stopListening: (() => void) | null = null;
+  /** The state most recently written (or loaded), passed as `prevState` to the `history` option. */
+  let lastPersisted = initialState;
+  /**
+   * The state restored by a Back/Forward navigation. Writing it must not push
+   * a new history entry, or the forward history would be lost.
+   */
+  let restoredFromHistory: { state: T } | null = null;
+  /**
+   * The timestamp and origin of the current state, compared against updates from other tabs.
+   * Stamped by `setState` for local edits, and by loads and remote updates otherwise.
+   */
+  let lastUpdate: { updatedAt: number; tabId?: string } = { updatedAt: 0 };
+  /** The state received from another tab. It is already persisted, so it is not written or broadcast again. */
+  let remoteState: { state: T } | null = null;
+  /** Broadcasts local writes to other tabs when `sync: 'tabs'` is set. */
+  let publishToTabs: ((value: T, updatedAt: number) => void) | null = null;
+
+  /** Without BroadcastChannel, tabs are synchronised through localStorage `storage` events. */
+  const getOfflineStorage = () =>
+    currentOptions.sync === 'tabs' && !supportsBroadcastChannel() ? 'localstorage' : 'indexeddb';
+
+  // --- Encryption Key Management ---
+  /**
+   * Retrieves the encryption key without generating one: the custom key, or the key stored
+   * when autoConfig first encrypted a state. Used to read states, which can only be encrypted
+   * with one of these.
+   */
+  const getExistingEncryptionKey = (): string | null => {
+    if (currentOptions.encryptionKey) return currentOptions.encryptionKey;
+    if (typeof localStorage === 'undefined') return null;
+    return localStorage.getItem(ENCRYPTION_KEY_STORAGE_KEY) || null;
+  };
+
+  /**
+   * Retrieves or generates an encryption key, for states that are written encrypted.
+   * Priority: custom key > stored key > new generated key.
+   * @throws {EncryptionError} If a key has to be generated and Web Crypto is not available.
+   */
+  const getEncryptionKey = async (): Promise<string | null> => {
+    const existingKey = getExistingEncryptionKey();
+    if (existingKey || typeof localStorage === 'undefined') return existingKey;
+
+    // Dynamically import encryption utils only when needed to reduce bundle size.
+    const { generateKey } = await import('./encryption.js');
+    const newKey = await generateKey();
+    localStorage.setItem(ENCRYPTION_KEY_STORAGE_KEY, newKey);
+    return newKey;
+  };
+
+  /** The codec writing the URL. The flat codec coerces decoded values to the types of `initialState`. */
+  const getURLCodec = (): URLCodec | undefined => {
+    const { codec } = currentOptions;
+    if (codec === 'flat') return createFlatCodec({ template: initialState });
+    return codec === 'json' ? undefined : codec;
+  };
+
+  /** The options deciding where and how the state is written in the URL. */
+  const getURLTarget = () => ({
+    codec: getURLCodec(),
+    location: currentOptions.location,
+    pathTemplate: currentOptions.pathTemplate,
+  });
+
+  /**
+   * Whether the URL holds only part of the state, to be merged over the offline or current state.
+   * With `optionalUrlFields`, the 'drop-optional' overflow strategy may have left some out.
+   */
+  const isPartialURL = () =>
+    hasUrlProjection(currentOptions) || !!getURLCodec()?.partial || (currentOptions.optionalUrlFields?.length ?? 0) > 0;
+
+  /** The part of `initialState` written to the URL, which 'diff' payloads are taken against. */
+  const getURLBaseline = () => projectUrlState(initialState, currentOptions);
+
+  /** The schema URL states are compacted with, if any. */
+  const getURLCompaction = (): CompactionSchema | undefined => {
+    const { compaction } = currentOptions;
+    return compaction === true ? createCompactionSchema(getURLBaseline()) : compaction || undefined;
+  };
+
+  /** Creates a URLPersistence able to decode any format written for this key. */
+  const createURLReader = (encryptionKey: string | null) => new URLPersistence({
+    enabled: true,
+    paramName: key,
+    compress: 'auto', // Auto-detect compression to handle any format
+    encryptionKey: encryptionKey || undefined,
+    encryptionKeyId: currentOptions.encryptionKeyId,
+    allowInsecureFallback: currentOptions.allowInsecureFallback,
+    // States are always encrypted with a custom key, so unencrypted URLs are rejected. With
+    // autoConfig, only states deemed sensitive are, so both are read.
+    encrypt: !!currentOptions.encryptionKey,
+    version: currentOptions.version,
+    migrations: currentOptions.migrations,
+    types: currentOptions.types,
+    baseline: getURLBaseline(),
+    compaction: getURLCompaction(),
+    decoding: currentOptions.decoding,
+    shortLinkStore: currentOptions.shortLinkStore,
+    ...getURLTarget(),
+  });
+
+  // --- Status ---
+  /** Updates the status and notifies status listeners. */
+  const setStatus = (changes: Partial<Omit<SlugStoreStatus, 'isLoading'>>) => {
+    const next = { ...status, ...changes };
+    status = { ...next, isLoading: next.status === 'loading' };
+    statusListeners.forEach((listener) => listener(status));
+  };
+
+  /** Records a failed load or write and passes it to `onError`. */
+  const reportError = (error: unknown) => {
+    const reported = error instanceof Error ? error : new Error(String(error));
+    setStatus({ status: 'error', error: reported });
+    if (currentOptions.onError) {
+      currentOptions.onError(reported);
+    } else {
+      console.error(reported);
+    }
+  };
+
+  // --- State Updates ---
+  /**
+   * Replaces the state and notifies subscribers.
+   * Writes are scheduled only after hydration, and only if `persist` is true.
+   */
+  const setState = (nextState: T, persist = true) => {
+    if (Object.is(nextState, state)) return;
+    const prevState = state;
+    state = nextState;
+    listeners.forEach((listener) => listener(state, prevState));
+    if (isHydrated && persist) {
+      // Local edits are stamped when they are made, not when the debounced write runs,
+      // so an older update from another tab cannot replace them in the meantime.
+      if (remoteState?.state !== nextState) {
+        lastUpdate = { updatedAt: Date.now(), tabId: TAB_ID };
+      }
+      scheduler.schedule(state);
+    }
+  };
+
+  // --- Persistence Writes ---
+  /**
+   * Shortens a URL longer than `maxUrlLength` with the `overflow` strategies and reports it.
+   * @returns The URL to write, or null to keep the state out of the URL, and why a strategy failed.
+   */
+  const handleOverflow = async (
+    urlState: unknown,
+    url: string,
+    urlOptions: URLPersistenceOptions,
+    maxUrlLength: number
+  ): Promise<UrlBudgetResult> => {
+    const { overflow = DEFAULT_OVERFLOW, optionalUrlFields, shortLinkStore, onOverflow } = currentOptions;
+    const result = await fitUrlBudget(urlState, url, urlOptions, {
+      maxUrlLength,
+      overflow: Array.isArray(overflow) ? overflow : [overflow],
+      optionalUrlFields,
+      shortLinkStore: shortLinkStore ?? createShortLinkClient(),
+    });
+
+    const event: UrlOverflowEvent = { key, length: url.length, maxUrlLength, ...result };
+    if (onOverflow) {
+      onOverflow(event);
+    } else if (!result.strategy) {
+      console.warn(`Slug Store [${key}] - The URL is ${url.length} characters long, over the maxUrlLength of ${maxUrlLength}.`);
+    }
+    return result;
+  };
+
+  /**
+   * Writes a state value to the configured persistence layers.
+   */
+  const persistState = async (value: T) => {
+    const {
+      url = false,
+      offline = false,
+      hybrid = false,
+      autoConfig = false,
+      encryptionKey: customEncryptionKey,
+      encryptionKeyId,
+      allowInsecureFallback,
+      debug = true,
+      version,
+      history = 'replace',
+      maxUrlLength,
+      serializer,
+      types,
+      encodeAs,
+    } = currentOptions;
+
+    const previousState = lastPersisted;
+    lastPersisted = value;
+    const errors: SlugStorePersistenceError[] = [];
+
+    // State received from another tab has already been persisted and broadcast by that tab.
+    const isRemote = remoteState?.state === value;
+    if (lastUpdate.updatedAt === 0) {
+      // Neither edited nor loaded yet: the initial state is as new as this write.
+      lastUpdate = { updatedAt: Date.now(), tabId: TAB_ID };
+    }
+    const { updatedAt } = lastUpdate;
+
+    let analysis: AutoConfigAnalysisResult | null = null;
+    if (autoConfig) {
+      analysis = analyzeDataPatterns(value);
+      if (debug && typeof process !== 'undefined' && process.env && process.env.NODE_ENV === 'development') {
+        console.groupCollapsed(`Slug Store [${key}] - AutoConfig Analysis`);
+        explainAutoConfig(value);
+        console.groupEnd();
+      }
+    }
+
+    // Determine persistence settings from options and auto-config.
+    const shouldPersistUrl = hybrid || url || (analysis?.shouldPersistInURL);
+    const shouldPersistOffline = hybrid || offline || (analysis?.shouldPersistOffline);
+    const shouldEncrypt = (!!customEncryptionKey) || (analysis?.shouldEncrypt);
+    // Only states written encrypted need a key, so unencrypted stores work without Web Crypto.
+    const encryptionKey = shouldEncrypt ? await getEncryptionKey() : null;
+    const shouldCompress = autoConfig ? analysis?.shouldCompress : url; // Also compress if url is true
+
+    // Persist to URL if configured. URLs only exist in browser windows.
+    let isOfflineOnly = false;
+    if (typeof window !== 'undefined') {
+      if (shouldPersistUrl) {
+        const urlOptions: URLPersistenceOptions = {
+          enabled: true,
+          paramName: key,
+          compress: shouldCompress,
+          encrypt: shouldEncrypt,
+          encryptionKey: encryptionKey || undefined,
+          encryptionKeyId,
+          allowInsecureFallback,
+          version,
+          serializer,
+          types,
+          encodeAs,
+          baseline: getURLBaseline(),
+          compaction: getURLCompaction(),
+          ...getURLTarget(),
+        };
+        const urlPersistence = new URLPersistence(urlOptions);
+        const urlState = projectUrlState(value, currentOptions);
+        const urlResult = await urlPersistence.encodeState(urlState);
+        if (!urlResult.success) {
+          errors.push(new SlugStorePersistenceError(key, 'url', 'save', urlResult.error ?? 'Unknown error'));
+        }
+
+        let nextUrl = urlResult.success ? urlResult.url ?? null : null;
+        if (nextUrl && maxUrlLength !== undefined && nextUrl.length > maxUrlLength) {
+          const budgetResult = await handleOverflow(urlState, nextUrl, urlOptions, maxUrlLength);
+          // A failed strategy is reported, but the state is still written by the next one and offline.
+          if (budgetResult.error) {
+            errors.push(new SlugStorePersistenceError(key, 'url', 'save', budgetResult.error.message));
+          }
+          nextUrl = budgetResult.url;
+          isOfflineOnly = nextUrl === null;
+        }
+
+        if (nextUrl) {
+          const isRestored = restoredFromHistory?.state === value;
+          const mode: HistoryMode = isRestored || isRemote || previousState === value
+            ? 'replace'
+            : typeof history === 'function' ? history(previousState, value) : history;
+          urlPersistence.updateURL(nextUrl, mode);
+        } else if (isOfflineOnly) {
+          urlPersistence.removeState();
+        }
+      } else {
+        // Clean up URL parameter if URL persistence is disabled.
+        new URLPersistence({ enabled: true, paramName: key, ...getURLTarget() }).removeState();
+      }
+    }
+
+    // Persist Offline if configured, or if the state did not fit in the URL.
+    // State received from another tab was already written by that tab.
+    if (shouldPersistOffline || isOfflineOnly) {
+      if (!isRemote) {
+        const offlinePersistence = new OfflinePersistence({
+          enabled: true,
+          storage: getOfflineStorage(),
+          encrypt: shouldEncrypt,
+          encryptionKey: encryptionKey || undefined,
+          encryptionKeyId,
+          allowInsecureFallback,
+          version,
+          serializer,
+          types,
+        });
+        const offlineResult = await offlinePersistence.saveState(key, value, updatedAt);
+        if (!offlineResult.success) {
+          errors.push(new SlugStorePersistenceError(key, 'offline', 'save', offlineResult.error ?? 'Unknown error'));
+        }
+      }
+    } else {
+      // Clean up offline storage if it's disabled.
+      const offlinePersistence = new OfflinePersistence({ enabled: true, storage: getOfflineStorage() });
+      await offlinePersistence.deleteState(key);
+    }
+
+    // Broadcast the update to other tabs.
+    if (!isRemote) {
+      publishToTabs?.(value, updatedAt);
+    }
+
+    if (errors.length > 0) {
+      errors.forEach(reportError);
+    } else {
+      setStatus({ status: 'ready', error: undefined, lastPersistedAt: updatedAt });
+    }
+  };
+
+  /** Coalesces rapid updates into as few writes as possible. */
+  const createScheduler = () => createPersistScheduler<T>(
+    persistState,
+    { debounceMs: currentOptions.debounceMs, throttleMs: currentOptions.throttleMs },
+    reportError
+  );
+  let scheduler: PersistScheduler<T> = createScheduler();
+
+  // --- Loading ---
+  /**
+   * Loads the initial state from the persistence layers.
+   * It follows a priority system: URL state takes precedence over Offline state.
+   * When only part of the state is written to the URL, it is merged over the offline state.
+   * Layers that fail to decode are reported and skipped.
+   */
+  const loadState = async (): Promise<{ state: T; source: StateSource } | undefined> => {
+    const encryptionKey = getExistingEncryptionKey();
+    const isPartialUrl = isPartialURL();
+
+    // Priority 1: Attempt to load state from the URL.
+    let urlState: { state: unknown } | null = null;
+    if (typeof window !== 'undefined') {
+      const urlResult = await createURLReader(encryptionKey).decodeState<T>();
+      if (urlResult.success && urlResult.state !== undefined) {
+        if (!isPartialUrl) {
+          return { state: await checkLoadedState(key, urlResult.state, 'url', initialState, currentOptions), source: 'url' };
+        }
+        urlState = { state: urlResult.state };
+      }
+      if (!urlResult.success) {
+        reportError(new SlugStorePersistenceError(key, 'url', 'load', urlResult.error ?? 'Unknown error', urlResult.code));
+      }
+    }
+
+    // Priority 2: Attempt to load from offline storage, which holds the full state.
+    const offlinePersistence = new OfflinePersistence({
+      enabled: true, // Always try to decode from offline
+      storage: getOfflineStorage(),
+      encryptionKey: encryptionKey || undefined,
+      encryptionKeyId: currentOptions.encryptionKeyId,
+      allowInsecureFallback: currentOptions.allowInsecureFallback,
+      encrypt: !!encryptionKey,
+      version: currentOptions.version,
+      migrations: currentOptions.migrations,
+      types: currentOptions.types,
+    });
+    const offlineResult = await offlinePersistence.loadState<T>(key);
+    const hasOfflineState = offlineResult.success && offlineResult.data !== undefined;
+    if (hasOfflineState && offlineResult.updatedAt) {
+      lastUpdate = { updatedAt: offlineResult.updatedAt };
+      setStatus({ lastPersistedAt: offlineResult.updatedAt });
+    }
+    if (!offlineResult.success) {
+      reportError(new SlugStorePersistenceError(key, 'offline', 'load', offlineResult.error ?? 'Unknown error'));
+    }
+
+    // The URL fields win over the offline state; the fields left out of the URL come from offline storage.
+    if (urlState) {
+      const baseState = hasOfflineState ? offlineResult.data as T : initialState;
+      return { state: await checkLoadedState(key, mergeState(baseState, urlState.state), 'url', initialState, currentOptions), source: 'url' };
+    }
+    if (hasOfflineState) {
+      return { state: await checkLoadedState(key, offlineResult.data, 'offline', initialState, currentOptions), source: 'offline' };
+    }
+
+    return undefined;
+  };
+
+  // --- Browser Listeners ---
+  /**
+   * Restores the state when the user navigates Back or Forward.
+   */
+  const handlePopState = async () => {
+    const urlResult = await createURLReader(getExistingEncryptionKey()).decodeState<T>();
+    if (!urlResult.success) {
+      reportError(new SlugStorePersistenceError(key, 'url', 'load', urlResult.error ?? 'Unknown error', urlResult.code));
+    }
+    // When only part of the state is in the URL, only that part is restored.
+    const isPartialUrl = isPartialURL();
+    let restoredState: T;
+    if (urlResult.success && urlResult.state !== undefined) {
+      const urlState = isPartialUrl ? mergeState(state, urlResult.state) : urlResult.state;
+      restoredState = await checkLoadedState(key, urlState, 'url', initialState, currentOptions);
+    } else {
+      // If the state is removed from the URL, revert to the initial state
+      restoredState = isPartialUrl ? mergeState(state, projectUrlState(initialState, currentOptions)) : initialState;
+    }
+
+    // Drop writes queued before the navigation; they belong to the entry the user just left.
+    scheduler.cancel();
+    restoredFromHistory = { state: restoredState };
+    lastPersisted = restoredState;
+    setState(restoredState);
+  };
+
+  /**
+   * Receives updates made by other tabs when `sync: 'tabs'` is set.
+   * An incoming update replaces the local state only if it is newer (last-writer-wins).
+   * @returns A function that stops listening.
+   */
+  const startTabSync = (): (() => void) => {
+    if (currentOptions.sync !== 'tabs') return () => {};
+
+    const applyRemoteState = (incomingState: T, update: { updatedAt: number; tabId?: string }) => {
+      if (!isNewerUpdate(update, lastUpdate)) return;
+      lastUpdate = update;
+      remoteState = { state: incomingState };
+      setState(incomingState);
+    };
+
+    const tabSync = createTabSync<T>(key, (message) => applyRemoteState(message.state, message));
+    if (tabSync) {
+      publishToTabs = tabSync.publish;
+      return () => {
+        tabSync.close();
+        publishToTabs = null;
+      };
+    }
+
+    // Fallback: observe the localStorage entries written by other tabs.
+    const encryptionKey = getExistingEncryptionKey();
+    const offlinePersistence = new OfflinePersistence({
+      enabled: true,
+      storage: 'localstorage',
+      encryptionKey: encryptionKey || undefined,
+      encryptionKeyId: currentOptions.encryptionKeyId,
+      allowInsecureFallback: currentOptions.allowInsecureFallback,
+      encrypt: !!encryptionKey,
+      version: currentOptions.version,
+      migrations: currentOptions.migrations,
+      types: currentOptions.types,
+    });
+    return offlinePersistence.subscribe<T>(key, (result) => {
+      if (result.success && result.data !== undefined && result.updatedAt) {
+        applyRemoteState(result.data, { updatedAt: result.updatedAt });
+      }
+    });
+  };
+
+  /** Starts every browser listener. */
+  const startListening = () => {
+    const handlePopStateEvent = () => {
+      handlePopState().catch(console.error);
+    };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('popstate', handlePopStateEvent);
+    }
+    // Flush pending writes when the page is hidden, so no final edit is lost.
+    const removePageHideListener = onPageHide(() => {
+      void scheduler.flush();
+    });
+    const stopTabSync = startTabSync();
+
+    return () => {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('popstate', handlePopStateEvent);
+      }
+      removePageHideListener();
+      stopTabSync();
+    };
+  };
+
+  return {
+    key,
+    get: () => state,
+    set(newState) {
+      setState(typeof newState === 'function' ? (newState as (prevState: T) => T)(state) : newState);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getStatus: () => status,
+    subscribeStatus(listener) {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+    hydrate() {
+      stopListening ??= startListening();
+      hydration ??= loadState().then(
+        (loaded) => {
+          isHydrated = true;
+          if (loaded !== undefined) {
+            lastPersisted = loaded.state;
+            setState(loaded.state);
+          }
+          // Errors reported while loading keep the 'error' status.
+          setStatus({ status: status.status === 'error' ? 'error' : 'ready', source: loaded?.source ?? 'initial' });
+        },
+        (error) => {
+          isHydrated = true;
+          reportError(error);
+        }
+      );
+      return hydration;
+    },
+    getOptions: () => currentOptions,
+    setOptions(nextOptions) {
+      const prevOptions = currentOptions;
+      currentOptions = nextOptions;
+
+      if (prevOptions.debounceMs !== nextOptions.debounceMs || prevOptions.throttleMs !== nextOptions.throttleMs) {
+        void scheduler.flush();
+        scheduler = createScheduler();
+      }
+      if (stopListening && prevOptions.sync !== nextOptions.sync) {
+        stopListening();
+        stopListening = startListening();
+      }
+      if (isHydrated && PERSISTENCE_OPTION_KEYS.some((optionKey) => prevOptions[optionKey] !== nextOptions[optionKey])) {
+        scheduler.schedule(state);
+      }
+    },
+    flush: () => scheduler.flush(),
+    reset() {
+      setState(initialState);
+    },
+    async clear() {
+      // Drop queued writes and wait for the one in flight, so nothing is written back afterwards.
+      scheduler.cancel();
+      await scheduler.flush();
+
+      lastPersisted = initialState;
+      setState(initialState, false);
+
+      new URLPersistence({ enabled: true, paramName: key, ...getURLTarget() }).removeState();
+      // The entry may live in either backend, depending on the `sync` option it was written with.
+      const storages = [
+        ...(typeof indexedDB !== 'undefined' ? ['indexeddb' as const] : []),
+        ...(typeof localStorage !== 'undefined' ? ['localstorage' as const] : []),
+      ];
+      for (const storage of storages) {
+        const result = await new OfflinePersistence({ enabled: true, storage }).deleteState(key);
+        if (!result.success) {
+          reportError(new SlugStorePersistenceError(key, 'offline', 'save', result.error ?? 'Unknown error'));
+        }
+      }
+      setStatus({ source: 'initial', lastPersistedAt: null });
+    },
+    destroy() {
+      stopListening?.();
+      stopListening = null;
+      void scheduler.flush();
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createTabSync, isNewerUpdate, supportsBroadcastChannel, TAB_ID, type TabSyncMessage } from './sync.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+const nextMessage = <T>(channel: BroadcastChannel) =>
+  new Promise<TabSyncMessage<T>>((resolve) => {
+    channel.onmessage = (event) => resolve(event.data);
+  });
+
+describe('Cross-Tab Sync', () => {
+  describe('isNewerUpdate', () => {
+    it('should prefer the later timestamp', () => {
+      expect(isNewerUpdate({ updatedAt: 2 }, { updatedAt: 1 })).toBe(true);
+      expect(isNewerUpdate({ updatedAt: 1, tabId: 'z' }, { updatedAt: 2, tabId: 'a' })).toBe(false);
+    });
+
+    it('should settle equal timestamps by tab id, identically in every tab', () => {
+      const a = { updatedAt: 5, tabId: 'a' };
+      const b = { updatedAt: 5, tabId: 'b' };
+
+      expect(isNewerUpdate(b, a)).toBe(true);
+      expect(isNewerUpdate(a, b)).toBe(false);
+      expect(isNewerUpdate(a, a)).toBe(false);
+    });
+  });
+
+  describe('createTabSync', () => {
+    it.runIf(supportsBroadcastChannel())('should deliver updates published by other tabs', async () => {
+      const onMessage = vi.fn();
+      const tabSync = createTabSync('wishlist', onMessage)!;
+      const otherTab = new BroadcastChannel('slug-store:wishlist');
+
+      const received = new Promise((resolve) => onMessage.mockImplementation(resolve));
+      otherTab.postMessage({ key: 'wishlist', state: { items: 1 }, updatedAt: 10, tabId: 'other-tab' });
+      await received;
+
+      expect(onMessage).toHaveBeenCalledWith({ key: 'wishlist', state: { items: 1 }, updatedAt: 10, tabId: 'other-tab' });
+      tabSync.close();
+      otherTab.close();
+    });
+
+    it.runIf(supportsBroadcastChannel())('should publish local updates with the tab id', async () => {
+      const tabSync = createTabSync<{ items: number }>('cart', () => {})!;
+      const otherTab = new BroadcastChannel('slug-store:cart');
+      const message = nextMessage<{ items: number }>(otherTab);
+
+      tabSync.publish({ items: 3 }, 42);
+
+      expect(await message).toEqual({ key: 'cart', state: { items: 3 }, updatedAt: 42, tabId: TAB_ID });
+      tabSync.close();
+      otherTab.close();
+    });
+
+    it('should return null when BroadcastChannel is unavailable', () => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      expect(createTabSync('wishlist', () => {})).toBeNull();
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('OfflinePersistence.subscribe', () => {
+    it('should decode entries written by other tabs to localStorage', async () => {
+      const writer = new OfflinePersistence({ enabled: true, storage: 'localstorage' });
+      await writer.saveState('wishlist', { items: ['Starship'] }, 1234);
+      const [, storedValue] = vi.mocked(localStorage.setItem).mock.calls.at(-1)!;
+
+      const listener = vi.fn();
+      const reader = new OfflinePersistence({ enabled: true, storage: 'localstorage' });
+      const unsubscribe = reader.subscribe('wishlist', listener);
+      const received = new Promise((resolve) => listener.mockImplementation(resolve));
+      window.dispatchEvent(new StorageEvent('storage', { key: 'slug-store:wishlist', newValue: storedValue }));
+      await received;
+
+      expect(listener).toHaveBeenCalledWith({ success: true, data: { items: ['Starship'] }, updatedAt: 1234 });
+      unsubscribe();
+    });
+
+    it('should not observe other backends', () => {
+      const persistence = new OfflinePersistence({ enabled: true, storage: 'indexeddb' });
+      const listener = vi.fn();
+      persistence.subscribe('wishlist', listener)();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
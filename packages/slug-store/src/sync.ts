@@ -0,0 +1,93 @@
+// Cross-Tab Sync Module
+/**
+ * A state update broadcast to other tabs.
+ */
+export interface TabSyncMessage<T> {
+  /** The slug-store key the update belongs to. */
+  key: string;
+  /** The new state. */
+  state: T;
+  /** When the state was changed, in milliseconds since the epoch. */
+  updatedAt: number;
+  /** The id of the tab that made the change. */
+  tabId: string;
+}
+
+/**
+ * A channel propagating state updates for one key between tabs of the same origin.
+ */
+export interface TabSync<T> {
+  /** Broadcasts a local update to every other tab. */
+  publish(state: T, updatedAt: number): void;
+  /** Stops listening and releases the channel. */
+  close(): void;
+}
+
+/**
+ * The id of the current tab, used to break timestamp ties deterministically.
+ */
+export const TAB_ID = Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+/**
+ * Whether the BroadcastChannel API is available in the current environment.
+ */
+export function supportsBroadcastChannel(): boolean {
+  return typeof BroadcastChannel !== 'undefined';
+}
+
+/**
+ * Decides whether an incoming update should replace the local state, using a
+ * last-writer-wins rule: the later timestamp wins, and equal timestamps are
+ * settled by comparing tab ids so that every tab reaches the same result.
+ *
+ * @param incoming The timestamp and tab id of the incoming update.
+ * @param local The timestamp and tab id of the local state.
+ * @returns True if the incoming update wins.
+ */
+export function isNewerUpdate(
+  incoming: { updatedAt: number; tabId?: string },
+  local: { updatedAt: number; tabId?: string }
+): boolean {
+  if (incoming.updatedAt !== local.updatedAt) {
+    return incoming.updatedAt > local.updatedAt;
+  }
+  return (incoming.tabId ?? '') > (local.tabId ?? '');
+}
+
+/**
+ * Opens a BroadcastChannel for a key and forwards updates from other tabs.
+ *
+ * @template T The type of the state.
+ * @param key The slug-store key to synchronise.
+ * @param onMessage Called with every update published by another tab.
+ * @param prefix A prefix for the channel name, to avoid naming collisions. @default 'slug-store'
+ * @returns The channel, or null if BroadcastChannel is not supported.
+ */
+export function createTabSync<T>(
+  key: string,
+  onMessage: (message: TabSyncMessage<T>) => void,
+  prefix: string = 'slug-store'
+): TabSync<T> | null {
+  if (!supportsBroadcastChannel()) return null;
+
+  const channel = new BroadcastChannel(`${prefix}:${key}`);
+  channel.onmessage = (event: MessageEvent<TabSyncMessage<T>>) => {
+    const message = event.data;
+    if (!message || message.key !== key || message.tabId === TAB_ID) return;
+    onMessage(message);
+  };
+
+  return {
+    publish(state: T, updatedAt: number) {
+      try {
+        channel.postMessage({ key, state, updatedAt, tabId: TAB_ID } satisfies TabSyncMessage<T>);
+      } catch (error) {
+        // States that cannot be structured-cloned are only synchronised through storage.
+        console.warn(`Slug Store [${key}] - Could not broadcast state to other tabs:`, error);
+      }
+    },
+    close() {
+      channel.close();
+    },
+  };
+}
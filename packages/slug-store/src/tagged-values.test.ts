@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { encodeTaggedValues, decodeTaggedValues, type TypeHandler } from './tagged-values.js';
+import { serialize, deserialize } from './serializers.js';
+import { URLPersistence } from './persistence/url.js';
+import { OfflinePersistence } from './persistence/offline.js';
+
+class Money {
+  constructor(readonly amount: number, readonly currency: string) {}
+}
+
+const moneyHandler: TypeHandler<Money> = {
+  tag: 'Money',
+  test: (value) => value instanceof Money,
+  encode: (value) => [value.amount, value.currency],
+  decode: ([amount, currency]) => new Money(amount, currency),
+};
+
+const richState = {
+  createdAt: new Date('2024-05-01T12:00:00.000Z'),
+  selectedIds: new Set(['a', 'b']),
+  columns: new Map<string, unknown>([
+    ['todo', { updatedAt: new Date('2024-05-02T08:30:00.000Z') }],
+    ['done', new Set([1, 2])],
+  ]),
+  views: 12345678901234567890n,
+  note: undefined,
+  list: [undefined, 1],
+};
+
+describe('tagged values', () => {
+  it('should round-trip Dates, Maps, Sets, BigInts and undefined', () => {
+    const decoded = decodeTaggedValues(JSON.parse(JSON.stringify(encodeTaggedValues(richState))));
+
+    expect(decoded).toEqual(richState);
+    expect(Object.keys(decoded as object)).toContain('note');
+  });
+
+  it('should write tagged values as plain JSON', () => {
+    expect(encodeTaggedValues({ at: new Date('2024-05-01T00:00:00.000Z'), ids: new Set([1]), note: undefined })).toEqual({
+      at: { $t: 'Date', $d: '2024-05-01T00:00:00.000Z' },
+      ids: { $t: 'Set', $d: [1] },
+      note: { $t: 'undefined' },
+    });
+  });
+
+  it('should keep invalid dates invalid', () => {
+    const decoded = decodeTaggedValues(encodeTaggedValues(new Date(NaN))) as Date;
+    expect(Number.isNaN(decoded.getTime())).toBe(true);
+  });
+
+  it('should leave states without tagged types untouched', () => {
+    const state = { view: 'grid', filters: { tags: ['sale'] } };
+    expect(encodeTaggedValues(state)).toBe(state);
+  });
+
+  it('should escape plain objects with a $t key', () => {
+    const state = { rule: { $t: 'Date', $d: 'not a date' } };
+    const encoded = encodeTaggedValues(state);
+
+    expect(encoded).toEqual({ rule: { $t: 'Object', $d: { $t: 'Date', $d: 'not a date' } } });
+    expect(decodeTaggedValues(encoded)).toEqual(state);
+  });
+
+  it('should use custom type handlers, nested in built-in types', () => {
+    const state = { prices: new Map([['basic', new Money(9, 'EUR')]]) };
+    const decoded = decodeTaggedValues(encodeTaggedValues(state, [moneyHandler]), [moneyHandler]) as typeof state;
+
+    expect(decoded.prices.get('basic')).toBeInstanceOf(Money);
+    expect(decoded).toEqual(state);
+  });
+
+  it('should let custom handlers take over built-in tags', () => {
+    const epochDates: TypeHandler<Date> = {
+      tag: 'Date',
+      test: (value) => value instanceof Date,
+      encode: (value) => value.getTime(),
+      decode: (data) => new Date(data),
+    };
+    const date = new Date('2024-05-01T00:00:00.000Z');
+
+    expect(encodeTaggedValues(date, [epochDates])).toEqual({ $t: 'Date', $d: 1714521600000 });
+    expect(decodeTaggedValues({ $t: 'Date', $d: 1714521600000 }, [epochDates])).toEqual(date);
+  });
+
+  it('should leave tags without a handler as they were written', () => {
+    const encoded = encodeTaggedValues({ price: new Money(5, 'USD') }, [moneyHandler]);
+    expect(decodeTaggedValues(encoded)).toEqual({ price: { $t: 'Money', $d: [5, 'USD'] } });
+  });
+
+  it('should reject circular states', () => {
+    const state: Record<string, unknown> = {};
+    state.self = new Set([state]);
+
+    expect(() => encodeTaggedValues(state)).toThrow('circular');
+  });
+
+  it('should keep __proto__ keys as own properties', () => {
+    const decoded = decodeTaggedValues(JSON.parse('{"__proto__":{"at":{"$t":"BigInt","$d":"1"}}}')) as object;
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.getOwnPropertyDescriptor(decoded, '__proto__')?.value).toEqual({ at: 1n });
+  });
+
+  it.each(['json', 'msgpack', 'cbor'] as const)('should round-trip through the %s serializer', (serializer) => {
+    const state = { ...richState, price: new Money(20, 'GBP') };
+    expect(deserialize(serialize(state, serializer, [moneyHandler]), serializer, [moneyHandler])).toEqual(state);
+  });
+
+  describe('persistence', () => {
+    beforeEach(() => {
+      window.history.replaceState({}, '', 'http://localhost:3000/');
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should survive share links', async () => {
+      const persistence = new URLPersistence({ enabled: true, paramName: 's', types: [moneyHandler] });
+      const state = { ...richState, price: new Money(20, 'GBP') };
+      const { url } = await persistence.encodeState(state, 'http://localhost:3000/');
+
+      expect(await persistence.decodeState(url!)).toEqual({ success: true, state });
+    });
+
+    it('should still read dates that earlier versions wrote as strings', async () => {
+      const url = `http://localhost:3000/?s=${encodeURIComponent('v1.j.n..{"createdAt":"2024-05-01T12:00:00.000Z"}')}`;
+      const result = await new URLPersistence({ enabled: true, paramName: 's' }).decodeState(url);
+
+      expect(result).toEqual({ success: true, state: { createdAt: '2024-05-01T12:00:00.000Z' } });
+    });
+
+    it('should survive reloads from offline storage', async () => {
+      const persistence = new OfflinePersistence({ enabled: true, storage: 'localstorage', version: 2 });
+      await persistence.saveState('board', richState);
+
+      const [, stored] = vi.mocked(localStorage.setItem).mock.lastCall!;
+      vi.mocked(localStorage.getItem).mockReturnValueOnce(stored);
+
+      expect(await persistence.loadState('board')).toMatchObject({ success: true, data: richState });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// Tagged Values Module
+import { setDecodedProperty } from './binary.js';
+import { isPlainObject } from './objects.js';
+
+/**
+ * Values JSON cannot represent are stored as tagged objects, `{ $t: <tag>, $d: <data> }`,
+ * and rebuilt on decode. Dates, Maps, Sets, BigInts and undefined are handled out of the
+ * box; `TypeHandler`s add other types, such as an app's own classes.
+ *
+ * Plain objects that have a `$t` key themselves are escaped with the `Object` tag, so they
+ * are never mistaken for tagged values.
+ */
+
+/**
+ * Stores values of one type as tagged values.
+ *
+ * @template T The type of the values.
+ */
+export interface TypeHandler<T = any> {
+  /** The tag stored with encoded values. Must be unique, and is case-sensitive. */
+  tag: string;
+  /** Whether a value is handled by this handler, e.g. `(value) => value instanceof Money`. */
+  test: (value: unknown) => boolean;
+  /** Converts a value to data that can be persisted. The data may contain other tagged types. */
+  encode: (value: T) => unknown;
+  /** Rebuilds a value from the data returned by `encode`. */
+  decode: (data: any) => T;
+}
+
+/** The key holding the tag of a tagged value. */
+const TAG_KEY = '$t';
+/** The key holding the data of a tagged value. */
+const DATA_KEY = '$d';
+/** The tag of plain objects that have a `$t` key. */
+const ESCAPED_OBJECT_TAG = 'Object';
+
+const BUILT_IN_TYPE_HANDLERS: TypeHandler[] = [
+  {
+    tag: 'Date',
+    test: (value) => value instanceof Date,
+    // Invalid dates have no ISO string.
+    encode: (value: Date) => (Number.isNaN(value.getTime()) ? null : value.toISOString()),
+    decode: (data: string | null) => new Date(data ?? NaN),
+  },
+  {
+    tag: 'Map',
+    test: (value) => value instanceof Map,
+    encode: (value: Map<unknown, unknown>) => Array.from(value),
+    decode: (data: Array<[unknown, unknown]>) => new Map(data),
+  },
+  {
+    tag: 'Set',
+    test: (value) => value instanceof Set,
+    encode: (value: Set<unknown>) => Array.from(value),
+    decode: (data: unknown[]) => new Set(data),
+  },
+  {
+    tag: 'BigInt',
+    test: (value) => typeof value === 'bigint',
+    encode: (value: bigint) => value.toString(),
+    decode: (data: string) => BigInt(data),
+  },
+  {
+    tag: 'undefined',
+    test: (value) => value === undefined,
+    encode: () => undefined,
+    decode: () => undefined,
+  },
+];
+
+/** Custom handlers come first, so they can take over types that are also built in. */
+function resolveHandlers(types: TypeHandler[]): TypeHandler[] {
+  return types.length ? [...types, ...BUILT_IN_TYPE_HANDLERS] : BUILT_IN_TYPE_HANDLERS;
+}
+
+function tagged(tag: string, data: unknown): Record<string, unknown> {
+  return data === undefined ? { [TAG_KEY]: tag } : { [TAG_KEY]: tag, [DATA_KEY]: data };
+}
+
+/**
+ * Replaces the values JSON cannot represent with tagged values, recursively.
+ * The result can be written by any serializer.
+ *
+ * @param value The state.
+ * @param types Handlers for additional types, tried before the built-in ones.
+ * @returns A JSON-compatible copy of the state. Parts that need no tagging are shared, not copied.
+ * @throws {TypeError} If the state contains a circular reference.
+ */
+export function encodeTaggedValues(value: unknown, types: TypeHandler[] = []): unknown {
+  const handlers = resolveHandlers(types);
+  const ancestors = new Set<object>();
+
+  const encode = (current: unknown): unknown => {
+    if (typeof current === 'object' && current !== null) {
+      if (ancestors.has(current)) {
+        throw new TypeError('Cannot persist a state with a circular reference');
+      }
+      ancestors.add(current);
+      try {
+        return encodeValue(current);
+      } finally {
+        ancestors.delete(current);
+      }
+    }
+    return encodeValue(current);
+  };
+
+  const encodeValue = (current: unknown): unknown => {
+    const handler = handlers.find((candidate) => candidate.test(current));
+    if (handler) {
+      // Data-less tags, such as undefined, are not encoded again.
+      const data = handler.encode(current);
+      return tagged(handler.tag, data === undefined ? undefined : encode(data));
+    }
+    if (Array.isArray(current)) {
+      const items = current.map(encode);
+      return items.every((item, index) => item === current[index]) ? current : items;
+    }
+    if (isPlainObject(current)) {
+      let changed = false;
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(current)) {
+        const encoded = encode(item);
+        changed ||= encoded !== item;
+        setDecodedProperty(result, key, encoded);
+      }
+      const object = changed ? result : current;
+      return Object.hasOwn(current, TAG_KEY) ? tagged(ESCAPED_OBJECT_TAG, object) : object;
+    }
+    // Class instances without a handler are written as JSON would write them.
+    return current;
+  };
+
+  return encode(value);
+}
+
+/**
+ * Rebuilds the values tagged by `encodeTaggedValues`. Tags without a handler are left as
+ * they were written, so states from a newer app version with more types still load.
+ *
+ * @param value The deserialized state.
+ * @param types Handlers for additional types, tried before the built-in ones.
+ * @returns The state with tagged values rebuilt.
+ */
+export function decodeTaggedValues(value: unknown, types: TypeHandler[] = []): unknown {
+  // Later entries win, so custom handlers take over built-in tags.
+  const handlers = new Map([...BUILT_IN_TYPE_HANDLERS, ...types].map((handler) => [handler.tag, handler]));
+
+  const decodeObject = (object: Record<string, unknown>): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(object)) {
+      setDecodedProperty(result, key, decode(item));
+    }
+    return result;
+  };
+
+  const decode = (current: unknown): unknown => {
+    if (Array.isArray(current)) {
+      return current.map(decode);
+    }
+    if (!isPlainObject(current)) {
+      return current;
+    }
+
+    const tag = current[TAG_KEY];
+    if (typeof tag === 'string') {
+      const data = current[DATA_KEY];
+      if (tag === ESCAPED_OBJECT_TAG && isPlainObject(data)) {
+        return decodeObject(data);
+      }
+      const handler = handlers.get(tag);
+      if (handler) {
+        return handler.decode(decode(data));
+      }
+    }
+    return decodeObject(current);
+  };
+
+  return decode(value);
+}
@@ -1,24 +1,10 @@
 // Test setup for slug-store
 import { vi } from 'vitest';
+import { webcrypto } from 'node:crypto';
 
-// Mock window.crypto for encryption tests
-Object.defineProperty(window, 'crypto', {
-  value: {
-    subtle: {
-      generateKey: vi.fn(),
-      importKey: vi.fn(),
-      encrypt: vi.fn(),
-      decrypt: vi.fn(),
-      exportKey: vi.fn(),
-    },
-    getRandomValues: vi.fn((array) => {
-      for (let i = 0; i < array.length; i++) {
-        array[i] = Math.floor(Math.random() * 256);
-      }
-      return array;
-    }),
-  },
-});
+// Web Crypto for encryption tests: Node's implementation, so they run real AES-GCM.
+// Tests simulate runtimes without it with vi.stubGlobal('crypto', undefined).
+Object.defineProperty(window, 'crypto', { value: webcrypto });
 
 // Mock IndexedDB
 const indexedDB = {
@@ -40,8 +26,10 @@ const indexedDB = {
   })),
 };
 
+// Configurable, so tests needing a working IndexedDB can stub in fake-indexeddb
 Object.defineProperty(window, 'indexedDB', {
   value: indexedDB,
+  configurable: true,
 });
 
 // Mock localStorage
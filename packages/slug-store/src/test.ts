@@ -93,8 +93,8 @@ export async function testPersistence() {
   console.log('Compression test:', testData === decompressed ? 'PASS' : 'FAIL');
   
   // Test encryption
-  const { encrypt, decrypt } = await import('./encryption.js');
-  const key = 'test-key-123';
+  const { encrypt, decrypt, generateKey } = await import('./encryption.js');
+  const key = await generateKey();
   const encrypted = await encrypt(testData, key);
   const decrypted = await decrypt(encrypted, key);
   console.log('Encryption test:', testData === decrypted ? 'PASS' : 'FAIL');
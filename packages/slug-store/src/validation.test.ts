@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { validateState, SlugStoreValidationError, type StandardSchemaV1 } from './validation.js';
+
+interface Filters {
+  view: 'grid' | 'list';
+  page: number;
+}
+
+const isFilters = (value: unknown): value is Filters =>
+  typeof value === 'object' &&
+  value !== null &&
+  ['grid', 'list'].includes((value as Filters).view) &&
+  typeof (value as Filters).page === 'number';
+
+const filtersSchema: StandardSchemaV1<unknown, Filters> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      isFilters(value)
+        ? { value: { ...value, page: Math.max(1, value.page) } }
+        : { issues: [{ message: 'Expected filters', path: ['view'] }] },
+  },
+};
+
+describe('Validation', () => {
+  describe('validateState', () => {
+    it('should accept values that pass a type guard', async () => {
+      const result = await validateState(isFilters, { view: 'grid', page: 2 });
+      expect(result).toEqual({ success: true, value: { view: 'grid', page: 2 } });
+    });
+
+    it('should reject values that fail a type guard', async () => {
+      const result = await validateState(isFilters, { view: 'table', page: 2 });
+      expect(result.success).toBe(false);
+    });
+
+    it('should report the message of a throwing validator', async () => {
+      const result = await validateState(() => {
+        throw new Error('page must be positive');
+      }, { view: 'grid', page: -1 });
+
+      expect(result).toEqual({ success: false, issues: [{ message: 'page must be positive' }] });
+    });
+
+    it('should return the transformed output of a Standard Schema', async () => {
+      const result = await validateState(filtersSchema, { view: 'list', page: 0 });
+      expect(result).toEqual({ success: true, value: { view: 'list', page: 1 } });
+    });
+
+    it('should return the issues of a Standard Schema', async () => {
+      const result = await validateState(filtersSchema, { view: 42 });
+      expect(result).toEqual({ success: false, issues: [{ message: 'Expected filters', path: ['view'] }] });
+    });
+
+    it('should support asynchronous Standard Schemas', async () => {
+      const asyncSchema: StandardSchemaV1<unknown, Filters> = {
+        '~standard': {
+          ...filtersSchema['~standard'],
+          validate: async (value) => filtersSchema['~standard'].validate(value),
+        },
+      };
+
+      const result = await validateState(asyncSchema, { view: 'grid', page: 3 });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('SlugStoreValidationError', () => {
+    it('should describe the key, source and issues', () => {
+      const error = new SlugStoreValidationError('filters', 'url', { view: 42 }, [{ message: 'Expected filters' }]);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('SlugStoreValidationError');
+      expect(error.source).toBe('url');
+      expect(error.message).toBe('Invalid state for "filters" loaded from url: Expected filters');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Validation Module
+/**
+ * A single problem reported by a validator.
+ */
+export interface ValidationIssue {
+  /** A human-readable description of the problem. */
+  message: string;
+  /** The path to the offending value inside the state, if known. */
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+/**
+ * The minimal subset of the Standard Schema v1 interface (https://standardschema.dev)
+ * that slug-store relies on. Zod, Valibot, ArkType and others implement it.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/**
+ * The result returned by a Standard Schema's `validate` function.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * A validator function. It may be a type guard, return a plain boolean,
+ * or throw an error describing why the value is invalid.
+ */
+export type SlugStoreValidator<T> = ((value: unknown) => value is T) | ((value: unknown) => boolean);
+
+/**
+ * Anything accepted by the `schema` option: a validator function or a
+ * Standard-Schema-compatible object.
+ */
+export type SlugStoreSchema<T> = SlugStoreValidator<T> | StandardSchemaV1<unknown, T>;
+
+/**
+ * Where a piece of persisted state was read from.
+ */
+export type StateSource = 'url' | 'offline';
+
+/**
+ * The result of validating a value against a schema.
+ */
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Raised when persisted state does not match the configured schema.
+ */
+export class SlugStoreValidationError extends Error {
+  readonly name = 'SlugStoreValidationError';
+
+  constructor(
+    /** The slug-store key whose state failed validation. */
+    readonly key: string,
+    /** The persistence layer the invalid state was loaded from. */
+    readonly source: StateSource,
+    /** The raw, decoded value that failed validation. */
+    readonly value: unknown,
+    /** The issues reported by the validator. */
+    readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Invalid state for "${key}" loaded from ${source}: ` +
+      (issues.map(issue => issue.message).join('; ') || 'validation failed')
+    );
+  }
+}
+
+function isStandardSchema<T>(schema: SlugStoreSchema<T>): schema is StandardSchemaV1<unknown, T> {
+  return typeof schema === 'object' && schema !== null && '~standard' in schema;
+}
+
+/**
+ * Validates a value against a validator function or a Standard Schema.
+ * Standard Schemas may transform the value; the transformed output is returned.
+ *
+ * @template T The expected type of the value.
+ * @param schema The validator function or Standard Schema to use.
+ * @param value The value to validate.
+ * @returns A result object containing either the validated value or the issues found.
+ */
+export async function validateState<T>(schema: SlugStoreSchema<T>, value: unknown): Promise<ValidationResult<T>> {
+  if (isStandardSchema(schema)) {
+    const result = await schema['~standard'].validate(value);
+    if (result.issues) {
+      return { success: false, issues: [...result.issues] };
+    }
+    return { success: true, value: result.value };
+  }
+
+  try {
+    if (schema(value)) {
+      return { success: true, value: value as T };
+    }
+    return { success: false, issues: [{ message: 'Value was rejected by the validator' }] };
+  } catch (error) {
+    return {
+      success: false,
+      issues: [{ message: error instanceof Error ? error.message : String(error) }]
+    };
+  }
+}
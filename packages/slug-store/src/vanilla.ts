@@ -0,0 +1,51 @@
+// Framework-agnostic entry point: no React, usable from web workers and plain scripts.
+export { createSlugStore, SlugStorePersistenceError } from './store.js';
+export type {
+  SlugStore,
+  SlugStoreListener,
+  SlugStoreOptions,
+  SlugStoreStateSource,
+  SlugStoreStatus,
+  SlugStoreStatusListener,
+} from './store.js';
+export { clearAllSlugStores } from './registry.js';
+export type { ClearAllSlugStoresOptions } from './registry.js';
+
+export type { StateProjection } from './projection.js';
+export { createFlatCodec } from './codec.js';
+export type { URLCodec, FlatCodecOptions } from './codec.js';
+export type { UrlOverflowStrategy, UrlOverflowEvent } from './overflow.js';
+export { createShortLinkClient } from './short-links.js';
+export type { ShortLinkStore, ShortLinkClientOptions } from './short-links.js';
+export type { SerializerName } from './serializers.js';
+export type { TypeHandler } from './tagged-values.js';
+export { createCompactionSchema } from './compaction.js';
+export type { CompactionSchema, CompactionSchemaOptions } from './compaction.js';
+export { generateKey, EncryptionError } from './encryption.js';
+export type { EncryptionErrorCode } from './encryption.js';
+
+export { URLPersistence } from './persistence/url.js';
+export type {
+  URLPersistenceOptions,
+  URLPersistenceResult,
+  URLDecodeResult,
+  URLDecodeErrorCode,
+  URLDecodingMode,
+  HistoryMode,
+  URLLocation,
+} from './persistence/url.js';
+export { OfflinePersistence } from './persistence/offline.js';
+export type { OfflinePersistenceOptions, OfflinePersistenceResult } from './persistence/offline.js';
+
+export { migrateState, SlugStoreMigrationError } from './migrations.js';
+export type { Migration, MigrationMap } from './migrations.js';
+
+export { validateState, SlugStoreValidationError } from './validation.js';
+export type {
+  SlugStoreSchema,
+  SlugStoreValidator,
+  StandardSchemaV1,
+  ValidationIssue,
+  ValidationResult,
+  StateSource,
+} from './validation.js';
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CompressionStream as NodeCompressionStream, DecompressionStream as NodeDecompressionStream } from 'node:stream/web';
+import {
+  compressWithAlgorithm,
+  decompress,
+  setCompressionBackend,
+  supportsCompression,
+} from './compression.js';
+import * as zlib from 'node:zlib';
+import { createZlibCompressionBackend, loadZlibCompressionBackend } from './zlib-compression.js';
+import { encodePayload, decodePayload } from './payload.js';
+
+const json = JSON.stringify({
+  items: Array.from({ length: 40 }, (_, i) => ({ id: i, name: `Item ${i}`, tags: ['sale', 'new'] })),
+});
+
+/** Compresses like a browser: only the formats browsers write. */
+class BrowserCompressionStream extends NodeCompressionStream {
+  constructor(format: string) {
+    if (format !== 'gzip' && format !== 'deflate-raw') throw new TypeError(`Unsupported compression format: '${format}'`);
+    super(format);
+  }
+}
+
+describe('compression backends', () => {
+  afterEach(() => {
+    setCompressionBackend(null);
+    vi.unstubAllGlobals();
+  });
+
+  describe('capability detection', () => {
+    it('should fall back from brotli to a format the runtime writes, and report it', async () => {
+      vi.stubGlobal('CompressionStream', BrowserCompressionStream);
+
+      expect(supportsCompression('brotli')).toBe(false);
+      expect(supportsCompression('deflate-raw')).toBe(true);
+      expect((await compressWithAlgorithm(json, 'brotli')).algorithm).toBe('deflate-raw');
+    });
+
+    it('should fall back to lz-string without CompressionStream', async () => {
+      vi.stubGlobal('CompressionStream', undefined);
+
+      expect(supportsCompression('gzip')).toBe(false);
+      expect(await compressWithAlgorithm(json, 'gzip')).toMatchObject({ algorithm: 'lz-string' });
+    });
+
+    it('should never select brotli automatically', async () => {
+      setCompressionBackend(createZlibCompressionBackend(zlib));
+
+      expect((await compressWithAlgorithm(json)).algorithm).toBe('deflate-raw');
+      expect((await compressWithAlgorithm('{"view":"grid"}')).algorithm).toBe('lz-string');
+    });
+  });
+
+  describe('loadZlibCompressionBackend', () => {
+    it('should load node:zlib in Node.js', async () => {
+      const backend = await loadZlibCompressionBackend();
+
+      expect(backend?.supports('brotli')).toBe(true);
+      const compressed = await backend!.compress(new TextEncoder().encode(json), 'gzip');
+      expect(new TextDecoder().decode(await backend!.decompress(compressed, 'gzip'))).toBe(json);
+    });
+
+    it('should resolve to null in runtimes without node:zlib', async () => {
+      // Edge runtimes have no Node.js version; restore `process` before anything else runs.
+      vi.stubGlobal('process', { env: {}, versions: {} });
+      const loading = loadZlibCompressionBackend();
+      vi.unstubAllGlobals();
+
+      expect(await loading).toBeNull();
+    });
+  });
+
+  describe('createZlibCompressionBackend', () => {
+    it.each(['gzip', 'deflate-raw', 'brotli'] as const)('should round-trip %s', async (algorithm) => {
+      setCompressionBackend(createZlibCompressionBackend(zlib));
+
+      const result = await compressWithAlgorithm(json, algorithm);
+
+      expect(result.algorithm).toBe(algorithm);
+      expect(result.data.length).toBeLessThan(json.length);
+      expect(await decompress(result.data, algorithm)).toBe(json);
+    });
+
+    it('should write brotli smaller than gzip', async () => {
+      setCompressionBackend(createZlibCompressionBackend(zlib));
+
+      const brotli = await compressWithAlgorithm(json, 'brotli');
+      const gzip = await compressWithAlgorithm(json, 'gzip');
+
+      expect(brotli.data.length).toBeLessThan(gzip.data.length);
+    });
+
+    it.each(['gzip', 'deflate-raw'] as const)('should write %s payloads that browsers decode', async (compression) => {
+      setCompressionBackend(createZlibCompressionBackend(zlib));
+      const payload = await encodePayload(json, { compression });
+
+      // Decode the server-written payload as a browser would.
+      setCompressionBackend(null);
+      vi.stubGlobal('DecompressionStream', NodeDecompressionStream);
+
+      expect(await decodePayload(payload)).toMatchObject({ header: { compression }, text: json });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+// Zlib Compression Module
+import type * as Zlib from 'node:zlib';
+import type { BinaryCompressionAlgorithm, CompressionBackend } from './compression.js';
+
+/** The `node:zlib` module. */
+export type ZlibModule = typeof Zlib;
+
+type ZlibMethod<O> = (data: Uint8Array, options: O, callback: (error: Error | null, result: Buffer) => void) => void;
+
+/** Runs a callback-style zlib method as a promise. */
+function runZlib<O>(method: ZlibMethod<O>, data: Uint8Array, options: O): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    method(data, options, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+}
+
+/** Clamps a 1–11 compression level to the 1–9 range of gzip and deflate. */
+const toZlibLevel = (level: number) => Math.min(Math.max(Math.round(level), 1), 9);
+
+/**
+ * Creates a compression backend using `node:zlib`, for Node.js and runtimes that provide it.
+ * Unlike `CompressionStream`, it writes brotli and honours compression levels. Its output is
+ * byte-for-byte standard gzip, deflate-raw or brotli, so browsers decode gzip and deflate-raw
+ * links written on the server.
+ *
+ * @param zlib The `node:zlib` module, e.g. `await import('node:zlib')`.
+ * @returns The backend.
+ */
+export function createZlibCompressionBackend(zlib: ZlibModule): CompressionBackend {
+  const hasBrotli = typeof zlib.brotliCompress === 'function';
+
+  const unsupported = (algorithm: BinaryCompressionAlgorithm) =>
+    Promise.reject(new Error(`${algorithm} is not available in this runtime's zlib`));
+
+  return {
+    supports(algorithm) {
+      return algorithm !== 'brotli' || hasBrotli;
+    },
+    async compress(data, algorithm, level) {
+      let output: Buffer;
+      switch (algorithm) {
+        case 'gzip':
+          output = await runZlib<Zlib.ZlibOptions>(zlib.gzip, data, { level: toZlibLevel(level ?? 6) });
+          break;
+        case 'deflate-raw':
+          output = await runZlib<Zlib.ZlibOptions>(zlib.deflateRaw, data, { level: toZlibLevel(level ?? 6) });
+          break;
+        case 'brotli':
+          if (!hasBrotli) return unsupported(algorithm);
+          output = await runZlib<Zlib.BrotliOptions>(zlib.brotliCompress, data, {
+            params: {
+              [zlib.constants.BROTLI_PARAM_QUALITY]: Math.min(Math.max(Math.round(level ?? 11), 0), 11),
+              [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+            },
+          });
+          break;
+      }
+      return new Uint8Array(output.buffer, output.byteOffset, output.length);
+    },
+    async decompress(data, algorithm) {
+      let output: Buffer;
+      switch (algorithm) {
+        case 'gzip':
+          output = await runZlib<Zlib.ZlibOptions>(zlib.gunzip, data, {});
+          break;
+        case 'deflate-raw':
+          output = await runZlib<Zlib.ZlibOptions>(zlib.inflateRaw, data, {});
+          break;
+        case 'brotli':
+          if (!hasBrotli) return unsupported(algorithm);
+          output = await runZlib<Zlib.BrotliOptions>(zlib.brotliDecompress, data, {});
+          break;
+      }
+      return new Uint8Array(output.buffer, output.byteOffset, output.length);
+    },
+  };
+}
+
+/**
+ * Loads `node:zlib` and creates a backend with it, where the runtime provides it. The module
+ * is imported dynamically, so bundles for edge runtimes without `node:zlib` still load.
+ *
+ * @returns The backend, or null if `node:zlib` is not available.
+ */
+export async function loadZlibCompressionBackend(): Promise<CompressionBackend | null> {
+  if (typeof process === 'undefined' || !process.versions?.node) return null;
+  try {
+    const zlib: ZlibModule = await import(/* webpackIgnore: true */ 'node:zlib');
+    return typeof zlib.gzip === 'function' ? createZlibCompressionBackend(zlib) : null;
+  } catch {
+    return null;
+  }
+}
@@ -3,7 +3,9 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: {
     server: 'src/server.ts',
+    'server-fs': 'src/short-link-fs.ts',
     client: 'src/client.ts',
+    vanilla: 'src/vanilla.ts',
   },
   format: ['esm'],
   dts: true,